@@ -0,0 +1,142 @@
+/**
+ * Converts one attribute between the value Triplit stores and the value kept in the
+ * TanStack DB collection. `null` and `undefined` are never passed to a codec.
+ */
+export interface TriplitValueCodec<TDecoded = any, TEncoded = any> {
+  /** Converts a value read from Triplit into the value stored in the collection. */
+  decode: (value: TEncoded) => TDecoded;
+  /** Converts a value written to the collection into the value sent to Triplit. */
+  encode: (value: TDecoded) => TEncoded;
+}
+
+/**
+ * Codecs keyed by top-level attribute name. Nested attributes are handled with `recordCodec`.
+ */
+export type TriplitCodecs<TItem extends object = Record<string, unknown>> = {
+  [K in keyof TItem]?: TriplitValueCodec;
+};
+
+/**
+ * A codec for Triplit `S.Set` attributes. Arrays written to the collection (e.g. after a
+ * UI replaced the set with an array) are converted back into a `Set` before being sent
+ * to Triplit.
+ *
+ * @param options.as How the set is represented in the collection: a `Set` (the default)
+ *   or an array.
+ */
+export function setCodec<T = unknown>(options?: { as?: 'set' }): TriplitValueCodec<Set<T>, Set<T>>;
+export function setCodec<T = unknown>(options: { as: 'array' }): TriplitValueCodec<T[], Set<T>>;
+export function setCodec<T = unknown>(
+  options: { as?: 'set' | 'array' } = {}
+): TriplitValueCodec<any, Set<T>> {
+  return {
+    decode: (value) =>
+      options.as === 'array'
+        ? Array.from(toIterable<T>(value))
+        : new Set(toIterable<T>(value)),
+    encode: (value) => new Set(toIterable<T>(value)),
+  };
+}
+
+/**
+ * A codec for Triplit `S.Date` attributes. Values written to the collection may be
+ * `Date`s, timestamps or date strings; Triplit always receives a `Date`.
+ *
+ * @param options.as How the date is represented in the collection: a `Date` (the
+ *   default), an ISO string, or a millisecond timestamp.
+ */
+export function dateCodec(options?: { as?: 'date' }): TriplitValueCodec<Date, Date>;
+export function dateCodec(options: { as: 'string' }): TriplitValueCodec<string, Date>;
+export function dateCodec(options: { as: 'number' }): TriplitValueCodec<number, Date>;
+export function dateCodec(
+  options: { as?: 'date' | 'string' | 'number' } = {}
+): TriplitValueCodec<any, Date> {
+  return {
+    decode: (value) => {
+      const date = toDate(value);
+      if (options.as === 'string') return date.toISOString();
+      if (options.as === 'number') return date.getTime();
+      return date;
+    },
+    encode: (value) => toDate(value),
+  };
+}
+
+/**
+ * A codec for Triplit `S.Record` attributes, applying the given codecs to the record's
+ * own attributes.
+ */
+export function recordCodec<TRecord extends object = Record<string, unknown>>(
+  codecs: TriplitCodecs<TRecord>
+): TriplitValueCodec<TRecord, TRecord> {
+  return {
+    decode: (value) => decodeItem(value, codecs),
+    encode: (value) => encodeItem(value, codecs),
+  };
+}
+
+/**
+ * Applies each codec's `decode` to an item read from Triplit.
+ * @internal
+ */
+export function decodeItem<TItem extends object>(
+  item: TItem,
+  codecs: TriplitCodecs<any> | undefined
+): TItem {
+  return transformItem(item, codecs, 'decode');
+}
+
+/**
+ * Applies each codec's `encode` to an item (or a partial item, such as the changes of an
+ * update) before it is written to Triplit. Attributes that are absent stay absent.
+ * @internal
+ */
+export function encodeItem<TItem extends object>(
+  item: TItem,
+  codecs: TriplitCodecs<any> | undefined
+): TItem {
+  return transformItem(item, codecs, 'encode');
+}
+
+function transformItem<TItem extends object>(
+  item: TItem,
+  codecs: TriplitCodecs<any> | undefined,
+  direction: 'decode' | 'encode'
+): TItem {
+  if (!codecs) return item;
+  let result: Record<string, unknown> | undefined;
+  const entries = Object.entries(codecs) as Array<
+    [string, TriplitValueCodec | undefined]
+  >;
+  for (const [key, codec] of entries) {
+    const value = (item as Record<string, unknown>)[key];
+    if (!codec || value === null || value === undefined) continue;
+    if (!result) result = { ...(item as Record<string, unknown>) };
+    result[key] = codec[direction](value);
+  }
+  return (result ?? item) as TItem;
+}
+
+function toIterable<T>(value: unknown): Iterable<T> {
+  if (value instanceof Set || Array.isArray(value)) return value;
+  // Triplit's storage format for sets: `{ [item]: true }`.
+  if (typeof value === 'object' && value !== null) {
+    return Object.entries(value)
+      .filter(([, included]) => included)
+      .map(([item]) => item as T);
+  }
+  throw new TypeError(`Expected a set or an array, got ${typeof value}.`);
+}
+
+function toDate(value: unknown): Date {
+  const date =
+    value instanceof Date
+      ? value
+      : typeof value === 'string' || typeof value === 'number'
+      ? new Date(value)
+      : undefined;
+  if (!date || Number.isNaN(date.getTime())) {
+    throw new TypeError(`Expected a date, got ${String(value)}.`);
+  }
+  return date;
+}
@@ -0,0 +1,254 @@
+import { DBChanges, TriplitClient, TriplitError } from '@triplit/client';
+
+/**
+ * The server-confirmation state of a row written through the collection.
+ *
+ * - `pending`: The write was applied locally and is waiting for the server.
+ * - `confirmed`: The server accepted the write (or the row was never written locally).
+ * - `rejected`: The server rejected the write. The optimistic change has been rolled back.
+ */
+export type TriplitConfirmationStatus = 'pending' | 'confirmed' | 'rejected';
+
+/**
+ * A listener notified whenever a row's confirmation status changes.
+ */
+export type TriplitConfirmationListener = (
+  key: string | number,
+  status: TriplitConfirmationStatus,
+  error?: TriplitError | Error
+) => void;
+
+/**
+ * Tracks the confirmation status of rows written through one collection.
+ * @internal
+ */
+export interface ConfirmationTracker {
+  getStatus: (key: string | number) => TriplitConfirmationStatus;
+  subscribe: (listener: TriplitConfirmationListener) => () => void;
+  /**
+   * Marks the given rows as pending and waits for Triplit to report that the server
+   * accepted (or rejected) each of them. Listeners are registered immediately, so
+   * call this before the writes are committed locally.
+   *
+   * A rejection that `willRetry` accepts leaves the rows pending, so they can be
+   * tracked again while the write is retried. Otherwise the pending changes of every
+   * row are cleared from the client's outbox.
+   */
+  track: (
+    keys: ReadonlyArray<string | number>,
+    willRetry?: (error: TriplitError | Error) => boolean
+  ) => {
+    /** Resolves once every row is confirmed; rejects with the first rejection. */
+    settled: Promise<void>;
+    /** Stops waiting, e.g. because the local commit itself failed. */
+    cancel: () => void;
+    /** The key of the row the server rejected, once `settled` has rejected. */
+    getRejectedKey: () => string | number | undefined;
+  };
+}
+
+/**
+ * Creates a confirmation tracker backed by the client's `onEntitySyncSuccess` and
+ * `onFailureToSyncWrites` callbacks.
+ * @internal
+ */
+export function createConfirmationTracker(
+  client: TriplitClient<any>,
+  collectionName: string
+): ConfirmationTracker {
+  // Only pending and rejected rows are stored; anything absent is confirmed.
+  const statuses = new Map<string | number, TriplitConfirmationStatus>();
+  const listeners = new Set<TriplitConfirmationListener>();
+
+  const setStatus = (
+    key: string | number,
+    status: TriplitConfirmationStatus,
+    error?: TriplitError | Error
+  ) => {
+    if (status === 'confirmed') {
+      statuses.delete(key);
+    } else {
+      statuses.set(key, status);
+    }
+    for (const listener of listeners) {
+      listener(key, status, error);
+    }
+  };
+
+  return {
+    getStatus: (key) => statuses.get(key) ?? 'confirmed',
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    track: (keys, willRetry) => {
+      const unsubscribers: Array<() => void> = [];
+      let rejectedKey: string | number | undefined;
+      const stopListening = () => {
+        for (const unsubscribe of unsubscribers.splice(0)) {
+          unsubscribe();
+        }
+      };
+
+      const settled = new Promise<void>((resolve, reject) => {
+        let remaining = new Set(keys);
+        if (remaining.size === 0) {
+          resolve();
+          return;
+        }
+
+        for (const key of remaining) {
+          setStatus(key, 'pending');
+          unsubscribers.push(
+            waitForEntity(client, collectionName, String(key), {
+              onSuccess: () => {
+                if (!remaining.delete(key)) return;
+                setStatus(key, 'confirmed');
+                if (remaining.size === 0) {
+                  stopListening();
+                  resolve();
+                }
+              },
+              onError: (error) => {
+                if (!remaining.has(key)) return;
+                rejectedKey = key;
+                if (!willRetry?.(error)) {
+                  setStatus(key, 'rejected', error);
+                  // The whole transaction is rolled back, so its other rows are no longer pending.
+                  for (const other of remaining) {
+                    if (other !== key) setStatus(other, 'confirmed');
+                  }
+                  // Triplit keeps rejected changes in its outbox and sends them again with
+                  // the next write; drop them so the rolled-back rows stay rolled back.
+                  for (const rolledBack of keys) {
+                    client
+                      .clearPendingChangesForEntity(collectionName, String(rolledBack))
+                      .catch(() => undefined);
+                  }
+                }
+                remaining = new Set();
+                stopListening();
+                reject(error);
+              },
+            })
+          );
+        }
+      });
+      // The caller only awaits `settled` after the local commit; avoid reporting an
+      // early rejection as unhandled in the meantime.
+      settled.catch(() => undefined);
+
+      return {
+        settled,
+        cancel: () => {
+          stopListening();
+          for (const key of keys) {
+            if (statuses.get(key) === 'pending') setStatus(key, 'confirmed');
+          }
+        },
+        getRejectedKey: () => rejectedKey,
+      };
+    },
+  };
+}
+
+interface EntityWaiter {
+  onSuccess: () => void;
+  onError: (error: TriplitError | Error) => void;
+}
+
+interface EntityListener {
+  waiters: Set<EntityWaiter>;
+  stop: () => void;
+}
+
+interface ClientListeners {
+  /** The listener of every awaited entity, by collection name and entity id. */
+  entities: Map<string, Map<string, EntityListener>>;
+  stop: () => void;
+}
+
+const clientListeners = new WeakMap<TriplitClient<any>, ClientListeners>();
+
+/**
+ * Waits for Triplit to report the outcome of the pending writes of an entity.
+ *
+ * Triplit keeps a single success callback per entity, so one is registered per entity
+ * and shared by every transaction waiting on it, e.g. successive edits of a row. They are
+ * all confirmed by the next acknowledgement of the entity. Rejections are taken from
+ * `onFailureToSyncWrites`, as the per-entity error callbacks aren't called for deletes.
+ * @returns A function that stops waiting.
+ */
+function waitForEntity(
+  client: TriplitClient<any>,
+  collectionName: string,
+  entityId: string,
+  waiter: EntityWaiter
+): () => void {
+  let listeners = clientListeners.get(client);
+  if (!listeners) {
+    const entities = new Map<string, Map<string, EntityListener>>();
+    // Triplit passes the rejected changes as a second argument it doesn't declare.
+    const onFailure = (error: unknown, failedChanges: DBChanges = {}) => {
+      for (const collection in failedChanges) {
+        const { sets, deletes } = failedChanges[collection];
+        for (const id of [...sets.keys(), ...deletes]) {
+          const entity = entities.get(collection)?.get(id);
+          for (const entityWaiter of [...(entity?.waiters ?? [])]) {
+            entityWaiter.onError(toSyncError(error));
+          }
+        }
+      }
+    };
+    listeners = {
+      entities,
+      stop: client.onFailureToSyncWrites(onFailure as (error: unknown) => void),
+    };
+    clientListeners.set(client, listeners);
+  }
+
+  const { entities } = listeners;
+  let collection = entities.get(collectionName);
+  if (!collection) {
+    collection = new Map();
+    entities.set(collectionName, collection);
+  }
+  let entity = collection.get(entityId);
+  if (!entity) {
+    const waiters = new Set<EntityWaiter>();
+    entity = {
+      waiters,
+      stop: client.onEntitySyncSuccess(collectionName, entityId, () => {
+        for (const entityWaiter of [...waiters]) entityWaiter.onSuccess();
+      }),
+    };
+    collection.set(entityId, entity);
+  }
+  entity.waiters.add(waiter);
+
+  return () => {
+    if (!entity.waiters.delete(waiter) || entity.waiters.size > 0) return;
+    entity.stop();
+    collection.delete(entityId);
+    if (collection.size > 0) return;
+    entities.delete(collectionName);
+    if (entities.size > 0) return;
+    listeners.stop();
+    clientListeners.delete(client);
+  };
+}
+
+/**
+ * Server rejections reach `onFailureToSyncWrites` as the JSON of the server's error;
+ * restores the `TriplitError` it describes, keeping its name and status.
+ */
+function toSyncError(error: unknown): TriplitError | Error {
+  if (error instanceof Error) return error;
+  if (typeof error === 'object' && error !== null) {
+    const json = error as { baseMessage?: string; message?: string };
+    return TriplitError.fromJson({ ...json, baseMessage: json.baseMessage ?? json.message });
+  }
+  return new Error(String(error));
+}
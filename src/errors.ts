@@ -0,0 +1,152 @@
+import type { PendingMutation } from '@tanstack/db';
+import type { TriplitError } from '@triplit/client';
+
+/**
+ * What the adapter was doing when an error occurred.
+ *
+ * - `fetch`: The initial fetch, or a local check of rows that left a windowed query.
+ * - `subscribe`: The live subscription.
+ * - `insert`, `update`, `delete`: Writing mutations to Triplit.
+ */
+export type TriplitErrorPhase = 'fetch' | 'subscribe' | 'insert' | 'update' | 'delete';
+
+/**
+ * Describes where an error reported to `onError` came from.
+ */
+export interface TriplitErrorContext {
+  phase: TriplitErrorPhase;
+  /** The ID of the TanStack DB collection, when known. */
+  collectionId?: string;
+  /** The Triplit collection the query targets. */
+  collectionName: string;
+  /** The keys of the affected rows: the rows being written, or the rows being checked. */
+  keys?: Array<string | number>;
+  /** For writes, the TanStack DB mutations being written. */
+  mutations?: ReadonlyArray<PendingMutation<any>>;
+  /**
+   * The number of the attempt that failed, starting at 1. Greater than 1 only when the
+   * failed operation was a retry (see the `retry` and `mutationRetry` options).
+   */
+  attempt: number;
+}
+
+/**
+ * Called with every error of the sync engine or the mutation handlers.
+ */
+export type TriplitErrorHandler = (
+  error: TriplitError | Error,
+  context: TriplitErrorContext
+) => void;
+
+/**
+ * Receives the adapter's diagnostic output. Defaults to `console`.
+ */
+export interface TriplitLogger {
+  error: (message: string, ...details: unknown[]) => void;
+}
+
+/** The kind of write a `TriplitMutationError` was raised for. */
+export type TriplitMutationOperation = 'insert' | 'update' | 'delete';
+
+/**
+ * What a `TriplitMutationError` knows about the write that failed.
+ */
+export interface TriplitMutationErrorDetails {
+  /** The Triplit collection that was written to. */
+  collectionName: string;
+  operation: TriplitMutationOperation;
+  /** The key of the row whose write failed, when known. */
+  key: string | number | undefined;
+  /**
+   * The keys of every row written in the same Triplit transaction. The transaction is
+   * rolled back as a whole, so none of them were persisted.
+   */
+  keys: Array<string | number>;
+  /** The error raised by Triplit. */
+  cause: unknown;
+}
+
+/**
+ * Raised by the mutation handlers (and `createTriplitTransaction`) when Triplit fails to
+ * persist a write, after which TanStack DB rolls the optimistic change back. Failures
+ * with a known reason use the subclasses `TriplitPermissionError` and
+ * `TriplitSchemaValidationError`; the original Triplit error is kept as `cause`.
+ *
+ * @example
+ * ```ts
+ * try {
+ *   await todosCollection.update(id, (draft) => { draft.title = title }).isPersisted.promise;
+ * } catch (error) {
+ *   if (error instanceof TriplitPermissionError) {
+ *     showToast("You don't have permission to edit this task.");
+ *   }
+ * }
+ * ```
+ */
+export class TriplitMutationError extends Error {
+  readonly collectionName: string;
+  readonly operation: TriplitMutationOperation;
+  readonly key: string | number | undefined;
+  readonly keys: Array<string | number>;
+
+  constructor(message: string, details: TriplitMutationErrorDetails) {
+    super(message, { cause: details.cause });
+    this.name = 'TriplitMutationError';
+    this.collectionName = details.collectionName;
+    this.operation = details.operation;
+    this.key = details.key;
+    this.keys = details.keys;
+  }
+}
+
+/**
+ * A write was rejected by the permissions of the Triplit schema for the current session.
+ */
+export class TriplitPermissionError extends TriplitMutationError {
+  constructor(message: string, details: TriplitMutationErrorDetails) {
+    super(message, details);
+    this.name = 'TriplitPermissionError';
+  }
+}
+
+/**
+ * A written value doesn't match the Triplit schema, e.g. an attribute has the wrong type.
+ */
+export class TriplitSchemaValidationError extends TriplitMutationError {
+  constructor(message: string, details: TriplitMutationErrorDetails) {
+    super(message, details);
+    this.name = 'TriplitSchemaValidationError';
+  }
+}
+
+// Triplit's own error classes are matched by name, so the client isn't a runtime dependency.
+const PERMISSION_ERRORS = new Set(['WritePermissionError', 'SessionRolesMismatchError']);
+const SCHEMA_ERRORS = new Set([
+  'DBSerializationError',
+  'InvalidInsertDocumentError',
+  'UnrecognizedAttributeTypeError',
+]);
+
+/**
+ * Wraps an error raised while writing to Triplit in the matching `TriplitMutationError`.
+ * @internal
+ */
+export function toTriplitMutationError(
+  cause: unknown,
+  details: Omit<TriplitMutationErrorDetails, 'cause'>
+): TriplitMutationError {
+  if (cause instanceof TriplitMutationError) return cause;
+  const name = cause instanceof Error ? cause.name : undefined;
+  const ErrorClass =
+    name && PERMISSION_ERRORS.has(name)
+      ? TriplitPermissionError
+      : name && SCHEMA_ERRORS.has(name)
+      ? TriplitSchemaValidationError
+      : TriplitMutationError;
+  const row = details.key === undefined ? 'rows' : `row "${String(details.key)}"`;
+  const reason = cause instanceof Error ? cause.message : String(cause);
+  return new ErrorClass(
+    `[Triplit Adapter] Failed to ${details.operation} ${row} in "${details.collectionName}": ${reason}`,
+    { ...details, cause }
+  );
+}
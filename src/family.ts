@@ -0,0 +1,188 @@
+import type { Collection } from '@tanstack/db';
+import type { Models, SchemaQuery } from '@triplit/client';
+import { createTriplitCollection } from './index';
+import type { TriplitCollectionFactoryOptions } from './index';
+import type { TriplitCollectionUtils } from './options';
+import { untrackTriplitCollection } from './registry';
+import { stableStringify } from './utils';
+
+/**
+ * Configuration options for `createTriplitCollectionFamily`: every option of
+ * `createTriplitCollection` except the `query`, which is built from the parameters.
+ */
+export type TriplitCollectionFamilyOptions<
+  M extends Models<M>,
+  TQuery extends SchemaQuery<M>,
+  TParams,
+  TItem extends object = TQuery extends { _output: infer O extends object } ? O : never
+> = Omit<TriplitCollectionFactoryOptions<M, TQuery, TItem>, 'query' | 'id'> & {
+  /**
+   * The ID of each member collection, either a prefix (the serialized parameters are
+   * appended) or a function of the parameters.
+   */
+  id?: string | ((params: TParams) => string);
+  /**
+   * How long, in milliseconds, a collection is kept after its last reference is released
+   * before its Triplit subscription is torn down and it is dropped from the family.
+   * Defaults to 5000.
+   */
+  idleTimeout?: number;
+  /**
+   * Serializes the parameters into the key collections are memoized by. Defaults to
+   * JSON with sorted object keys.
+   */
+  getParamsKey?: (params: TParams) => string;
+};
+
+/**
+ * A memoized set of Triplit collections, one per distinct set of query parameters.
+ */
+export interface TriplitCollectionFamily<TParams, TItem extends object> {
+  /**
+   * Returns the collection for the given parameters, creating it if necessary. This does
+   * not hold a reference: a collection that is never acquired is torn down after the
+   * idle timeout, once no live query (e.g. `useLiveQuery`) subscribes to it anymore.
+   */
+  get: (params: TParams) => Collection<TItem, string | number, TriplitCollectionUtils>;
+  /**
+   * Returns the collection for the given parameters and holds a reference to it until
+   * `release` is called. The collection is torn down once every reference is released,
+   * no live query subscribes to it, and the idle timeout has passed. Calling `release`
+   * more than once has no effect.
+   */
+  acquire: (params: TParams) => {
+    collection: Collection<TItem, string | number, TriplitCollectionUtils>;
+    release: () => void;
+  };
+  /** Immediately tears down every collection of the family. */
+  dispose: () => Promise<void>;
+}
+
+interface FamilyMember<TItem extends object> {
+  collection: Collection<TItem, string | number, TriplitCollectionUtils>;
+  refCount: number;
+  idleTimer: ReturnType<typeof setTimeout> | undefined;
+}
+
+/**
+ * Creates a family of Triplit collections that share their options but differ in their
+ * query parameters, such as one collection of messages per channel.
+ *
+ * Collections are memoized by their serialized parameters and reference-counted, counting
+ * both `acquire` references and TanStack DB's live subscribers. When the last of them is
+ * gone, the collection's Triplit subscription is torn down after `idleTimeout`, unless it
+ * is used again in the meantime.
+ *
+ * @param getQuery Builds the Triplit query for a set of parameters.
+ * @param options The options shared by every collection of the family.
+ *
+ * @example
+ * ```ts
+ * const channelMessages = createTriplitCollectionFamily(
+ *   (channelId: string) => client.query('messages').Where('channelId', '=', channelId),
+ *   { client, id: 'messages', idleTimeout: 30_000 }
+ * );
+ *
+ * const { collection, release } = channelMessages.acquire(channelId);
+ * // ...later, e.g. when the component unmounts:
+ * release();
+ * ```
+ */
+export function createTriplitCollectionFamily<
+  M extends Models<M>,
+  TQuery extends SchemaQuery<M>,
+  TParams,
+  TItem extends object = TQuery extends { _output: infer O extends object } ? O : never
+>(
+  getQuery: (params: TParams) => TQuery,
+  options: TriplitCollectionFamilyOptions<M, TQuery, TParams, TItem>
+): TriplitCollectionFamily<TParams, TItem> {
+  const {
+    id,
+    idleTimeout = 5000,
+    getParamsKey = stableStringify,
+    ...collectionOptions
+  } = options;
+  const members = new Map<string, FamilyMember<TItem>>();
+
+  const teardown = async (paramsKey: string, member: FamilyMember<TItem>) => {
+    clearTimeout(member.idleTimer);
+    if (members.get(paramsKey) === member) members.delete(paramsKey);
+    untrackTriplitCollection(member.collection);
+    await member.collection.cleanup();
+  };
+
+  const scheduleTeardown = (paramsKey: string, member: FamilyMember<TItem>) => {
+    clearTimeout(member.idleTimer);
+    member.idleTimer = setTimeout(() => {
+      member.idleTimer = undefined;
+      if (member.refCount > 0) return;
+      // A collection obtained with `get` may still feed live queries; check again later.
+      if (hasSubscribers(member.collection)) {
+        scheduleTeardown(paramsKey, member);
+      } else {
+        void teardown(paramsKey, member);
+      }
+    }, idleTimeout);
+  };
+
+  const getMember = (params: TParams) => {
+    const paramsKey = getParamsKey(params);
+    let member = members.get(paramsKey);
+    if (!member) {
+      const collection = createTriplitCollection<M, TQuery, TItem>({
+        ...collectionOptions,
+        query: getQuery(params),
+        id:
+          typeof id === 'function'
+            ? id(params)
+            : id !== undefined
+            ? `${id}:${paramsKey}`
+            : undefined,
+      } as TriplitCollectionFactoryOptions<M, TQuery, TItem>);
+      member = { collection, refCount: 0, idleTimer: undefined };
+      members.set(paramsKey, member);
+      scheduleTeardown(paramsKey, member);
+    }
+    return { paramsKey, member };
+  };
+
+  return {
+    get: (params) => getMember(params).member.collection,
+    acquire: (params) => {
+      const { paramsKey, member } = getMember(params);
+      member.refCount += 1;
+      clearTimeout(member.idleTimer);
+      member.idleTimer = undefined;
+
+      let isReleased = false;
+      return {
+        collection: member.collection,
+        release: () => {
+          if (isReleased) return;
+          isReleased = true;
+          member.refCount -= 1;
+          if (member.refCount === 0 && members.get(paramsKey) === member) {
+            scheduleTeardown(paramsKey, member);
+          }
+        },
+      };
+    },
+    dispose: async () => {
+      const entries = Array.from(members);
+      await Promise.all(
+        entries.map(([paramsKey, member]) => teardown(paramsKey, member))
+      );
+    },
+  };
+}
+
+/**
+ * Whether TanStack DB has live subscribers (e.g. `useLiveQuery` or `subscribeChanges`)
+ * on a collection. TanStack DB doesn't expose the count publicly.
+ */
+function hasSubscribers(collection: object): boolean {
+  return (
+    ((collection as { activeSubscribersCount?: number }).activeSubscribersCount ?? 0) > 0
+  );
+}
@@ -8,9 +8,67 @@ import {
   TriplitClient,
   SchemaQuery,
   Models,
-  TriplitError,
+  FetchResult,
 } from '@triplit/client';
-import { createTriplitCollectionOptions } from './options';
+import { assertTriplitWritePermitted, createTriplitCollectionOptions } from './options';
+import type {
+  TriplitCollectionUtils,
+  TriplitEvictionPolicy,
+  TriplitLoadStrategy,
+  TriplitSessionChangePolicy,
+} from './options';
+import type { TriplitCodecs } from './codecs';
+import type { TriplitUpdateStrategy } from './updates';
+import type { TriplitRetryPolicy } from './retry';
+import type { TriplitErrorHandler, TriplitLogger } from './errors';
+import { registerTriplitCollection, trackTriplitCollection } from './registry';
+import type { TriplitCollectionMeta } from './registry';
+import { getLoadedPermissionRules } from './permissions';
+import { getIncludedRelations } from './relations';
+
+export { setCodec, dateCodec, recordCodec } from './codecs';
+export type { TriplitCodecs, TriplitValueCodec } from './codecs';
+export type { TriplitUpdateStrategy } from './updates';
+export { triplitSchemaToStandardSchema } from './schema';
+export type { TriplitSchemaSource } from './schema';
+export { createTriplitCollectionFamily } from './family';
+export type {
+  TriplitCollectionFamily,
+  TriplitCollectionFamilyOptions,
+} from './family';
+export {
+  TriplitMutationError,
+  TriplitPermissionError,
+  TriplitSchemaValidationError,
+} from './errors';
+export type {
+  TriplitErrorContext,
+  TriplitErrorHandler,
+  TriplitErrorPhase,
+  TriplitLogger,
+  TriplitMutationErrorDetails,
+  TriplitMutationOperation,
+} from './errors';
+export { isRetryableTriplitError } from './retry';
+export type { TriplitRetryPolicy } from './retry';
+export { createTriplitTransaction } from './transaction';
+export { getTriplitCollections, disposeAll, pauseAll, resumeAll } from './registry';
+export type { TriplitTransactionConfig } from './transaction';
+export type {
+  TriplitCollectionUtils,
+  TriplitEvictionPolicy,
+  TriplitLoadStrategy,
+  TriplitSessionChangePolicy,
+} from './options';
+export type {
+  TriplitConfirmationListener,
+  TriplitConfirmationStatus,
+} from './confirmation';
+export type {
+  TriplitSyncState,
+  TriplitSyncStatus,
+  TriplitSyncStatusStore,
+} from './sync-status';
 
 /**
  * A utility type to allow passthrough of any standard `CollectionConfig` properties
@@ -23,14 +81,52 @@ type PassthroughCollectionConfig<TItem extends object> = Omit<
 >;
 
 /**
- * Configuration options for the `createTriplitCollection` factory function.
- * This combines the essential Triplit configuration with all standard, passthrough
- * options from TanStack DB's `CollectionConfig`.
+ * The rows a query returns: `TItem` when it is given, otherwise the rows Triplit returns
+ * for the query's collection in `M`, after its `select`.
+ * @internal
  */
-export interface TriplitCollectionFactoryOptions<
+type QueryItem<
   M extends Models<M>,
   TQuery extends SchemaQuery<M>,
-  TItem extends object = TQuery extends { _output: infer O extends object } ? O : never
+  TItem extends object
+> = [TItem] extends [never] ? NonNullable<FetchResult<M, TQuery, 'one'>> : TItem;
+
+/**
+ * The `getKey` option of `createTriplitCollection`. Every Triplit entity has a primary
+ * `id`, so `getKey` is optional whenever the query's rows have an `id` attribute and
+ * defaults to reading it. For rows without an `id` (e.g. a query that `select`s it away),
+ * `getKey` is mandatory, so omitting it fails to compile.
+ * @internal
+ */
+type GetKeyOption<
+  M extends Models<M>,
+  TQuery extends SchemaQuery<M>,
+  TItem extends object
+> = [QueryItem<M, TQuery, TItem>] extends [{ id: string | number }]
+  ? {
+      /**
+       * A function that returns a unique, stable key (ID) for a given item, used by
+       * TanStack DB to track individual entities for updates and deletes.
+       * Defaults to reading the entity's `id`.
+       */
+      getKey?: (item: QueryItem<M, TQuery, TItem>) => string | number;
+    }
+  : {
+      /**
+       * A function that returns a unique, stable key (ID) for a given item. This is
+       * mandatory because the item type has no `id` attribute to default to.
+       */
+      getKey: (item: QueryItem<M, TQuery, TItem>) => string | number;
+    };
+
+/**
+ * The options of `createTriplitCollection` other than `getKey`.
+ * @internal
+ */
+interface TriplitCollectionFactoryBaseOptions<
+  M extends Models<M>,
+  TQuery extends SchemaQuery<M>,
+  TItem extends object
 > extends PassthroughCollectionConfig<TItem> {
   /**
    * An instance of the configured TriplitClient. This client should be
@@ -46,12 +142,6 @@ export interface TriplitCollectionFactoryOptions<
    */
   query: TQuery;
 
-  /**
-   * A function that returns a unique, stable key (ID) for a given item. This is
-   * mandatory for TanStack DB to track individual entities for updates and deletes.
-   */
-  getKey: (item: TItem) => string | number;
-
   /**
    * An optional, but highly recommended, unique identifier for this collection.
    * This ID is used in developer tools and for debugging, making it an essential
@@ -71,10 +161,198 @@ export interface TriplitCollectionFactoryOptions<
    * An optional callback to handle errors that occur during the real-time subscription
    * or during mutation operations. Useful for global error logging or displaying toasts.
    * @param error - The error received from the Triplit client.
+   * @param context - Where the error came from: the phase (`fetch`, `subscribe`,
+   *   `insert`, `update` or `delete`), the collection, the affected keys and mutations,
+   *   and the attempt number.
+   */
+  onError?: TriplitErrorHandler;
+
+  /**
+   * Receives the adapter's diagnostic messages, such as failed fetches and subscription
+   * errors, e.g. to route them to a logging service or silence them. Defaults to `console`.
+   */
+  logger?: TriplitLogger;
+
+  /**
+   * When `true`, mutation handlers resolve only after the Triplit server has accepted
+   * every written entity (via `onEntitySyncSuccess` / `onFailureToSyncWrites`), rather than
+   * as soon as the write lands in the local database. TanStack DB then keeps the optimistic
+   * state until the server confirms, and rolls it back if the server rejects the write. The
+   * rejected changes are then cleared from the client's outbox, so they aren't sent again.
+   * Per-row status is available through `collection.utils.getConfirmationStatus(key)`.
+   *
+   * Note that while offline, mutations stay pending until the client reconnects. Writes
+   * made through `createTriplitTransaction` don't wait for the server.
+   * @default false
+   */
+  awaitServerConfirmation?: boolean;
+
+  /**
+   * Enables paginated mode. The collection starts with the first `pageSize` rows of
+   * `query` and grows one page at a time through `collection.utils.loadMore()`, while
+   * `collection.utils.hasMore()` reports whether more rows exist. Every loaded page is its
+   * own live Triplit subscription (using `limit` and an `after` cursor), so all loaded rows
+   * keep updating in real time.
+   *
+   * A row that drops out of every loaded page is only deleted from the collection once the
+   * local database confirms it no longer matches `query`; rows merely pushed past a page
+   * boundary are handled per `evictionPolicy`. Paginated mode skips the upfront `client.fetch`.
+   *
+   * When the sync restarts (on `resume`, a session change or after a failed page), the pages
+   * loaded so far are reopened, and the collection updates once they have all delivered.
+   * `setQuery` starts over from the first page.
+   *
+   * The query's `order` determines the page order; `id` is appended as a tie-breaker.
+   */
+  pageSize?: number;
+
+  /**
+   * Controls rows that leave the window of a query with a `limit` (or a paginated
+   * collection) without leaving the query itself, e.g. the oldest row when another user
+   * inserts a newer one. Such rows are told apart from real deletes by checking them
+   * against the query in the local database; rows that were deleted or no longer match
+   * the filter are always removed.
+   *
+   * - `'delete'` (default): remove evicted rows, so the collection mirrors the query window exactly.
+   * - `'retain'` (default with `pageSize`): keep evicted rows, so joined live queries don't
+   *   flicker and loaded pages don't lose rows. The collection can then grow beyond the
+   *   query's `limit`; retained rows are refreshed from the local database whenever the
+   *   window changes, but receive no live updates of their own.
+   */
+  evictionPolicy?: TriplitEvictionPolicy;
+
+  /**
+   * Called with the rows that were evicted from the query window (see `evictionPolicy`),
+   * as opposed to deleted from the database. Called once per eviction.
+   */
+  onEvict?: (items: TItem[]) => void;
+
+  /**
+   * Value codecs keyed by attribute name. Each codec decodes values read from Triplit
+   * before they enter the collection, and encodes values from inserts and updates before
+   * they are written to Triplit. Use the built-in `setCodec`, `dateCodec` and
+   * `recordCodec`, or provide your own `{ decode, encode }` pair.
+   *
+   * @example
+   * codecs: { tags: setCodec(), dueDate: dateCodec({ as: 'string' }) }
+   */
+  codecs?: TriplitCodecs<TItem>;
+
+  /**
+   * How update changes are written to Triplit (see `TriplitUpdateStrategy`).
+   *
+   * - `'shallow'` (default): assign the changed top-level attributes.
+   * - `'deep-patch'`: assign only the nested leaf attributes that changed, so concurrent
+   *   edits to different fields of the same record are both kept.
+   * - `'full'`: write the whole updated row.
+   */
+  updateStrategy?: TriplitUpdateStrategy;
+
+  /**
+   * Materializes the entities of included relations (`.Include()`, `.SubqueryOne()`,
+   * `.SubqueryMany()`) into sibling collections, keyed by relation alias. Each target must
+   * be a collection created with `createTriplitCollection` for the related Triplit
+   * collection; related entities are written into it while both collections are syncing,
+   * even if its own query doesn't match them.
+   *
+   * Included relations always stay available, read-only, on the items of this collection,
+   * and are never written back to Triplit by its mutations.
+   *
+   * @example
+   * query: client.query('todos').Include('assignee'),
+   * relationCollections: { assignee: usersCollection },
    */
-  onError?: (error: TriplitError | Error) => void;
+  relationCollections?: Record<string, Collection<any, any, any>>;
+
+  /**
+   * How the initial data is loaded (see `TriplitLoadStrategy`). By default, a fetch with
+   * the client's default policy races the live subscription.
+   *
+   * - `'local-first'`, `'local-and-remote'`: fetch with that Triplit fetch policy.
+   * - `'remote-first'`, `'remote-only'`: fetch from the server, subscribing only once the
+   *   fetch has settled, so the collection becomes ready with server data (e.g. for SSR).
+   * - `'local-only'`: never contact the server, neither to fetch nor to subscribe.
+   * - `'subscribe-only'`: skip the upfront fetch.
+   */
+  loadStrategy?: TriplitLoadStrategy;
+
+  /**
+   * If `true`, the collection is only marked ready once the server has fulfilled the
+   * query, instead of on the first (possibly empty, cached) result, so a fresh device
+   * doesn't flash an empty state. Falls back to the local data after
+   * `remoteFulfilledTimeout`. Whether the data is still local-only is reported by
+   * `collection.utils.getSyncStatus().isLocalOnly`. Defaults to `false`.
+   */
+  awaitRemoteFulfilled?: boolean;
+
+  /**
+   * With `awaitRemoteFulfilled`, how long, in milliseconds, to wait for the server before
+   * marking the collection ready with local data. Defaults to 10000.
+   */
+  remoteFulfilledTimeout?: number;
+
+  /**
+   * Retries a failed initial fetch and re-subscribes after a subscription error, with
+   * exponential backoff (see `TriplitRetryPolicy`). `true` uses the default policy.
+   * Every failed attempt is still reported to `onError`. Defaults to `false`.
+   *
+   * @example
+   * retry: { maxAttempts: Infinity, maxDelay: 60_000 }
+   */
+  retry?: boolean | TriplitRetryPolicy;
+
+  /**
+   * Retries writes that fail with a retryable error (see `isRetryableTriplitError`), such
+   * as a network or token-expiry error, with backoff instead of rolling the optimistic
+   * change back right away. Only permanent failures, or running out of attempts, roll it
+   * back. With `awaitServerConfirmation`, writes the server rejects with a retryable error
+   * are sent again too. While enabled, the collection's writes are committed one at a time,
+   * in order. `true` uses the default policy. Every failed attempt is reported to `onError`.
+   * Writes made through `createTriplitTransaction` aren't retried. Defaults to `false`.
+   */
+  mutationRetry?: boolean | TriplitRetryPolicy;
+
+  /**
+   * Whether writes are checked against the Triplit schema's permissions for the current
+   * session. Once the collection has loaded the rules, which it does when it starts
+   * syncing, `insert` and `update` throw a `TriplitPermissionError` for a denied write
+   * before applying it. Deletes, and writes made before the rules have loaded, are
+   * rejected by the mutation handlers instead, and TanStack DB rolls the optimistic state
+   * back. Either way, the write is never sent to Triplit. The rules are loaded once per
+   * client and follow changes of its schema. Rules that can't be decided locally are left
+   * to Triplit. Defaults to `false`.
+   */
+  checkPermissions?: boolean;
+
+  /**
+   * What to do with the collection's rows when the client's session changes, e.g. on
+   * logout or a role switch. The collection re-subscribes either way; `'keep'` shows the
+   * current rows until the new session's first result, `'clear'` removes them right away.
+   * Defaults to `'keep'`.
+   */
+  sessionChangePolicy?: TriplitSessionChangePolicy;
+
+  /**
+   * Pauses syncing while the page is hidden, as reported by the Page Visibility API, e.g.
+   * in a background tab: the collection unsubscribes from Triplit and keeps its rows. Once
+   * the page is visible again, it fetches its query once, reconciles, and re-subscribes.
+   * Independent of `collection.utils.pause()`. Has no effect outside the browser.
+   * Defaults to `false`.
+   */
+  pauseWhenHidden?: boolean;
 }
 
+/**
+ * Configuration options for the `createTriplitCollection` factory function.
+ * This combines the essential Triplit configuration with all standard, passthrough
+ * options from TanStack DB's `CollectionConfig`.
+ */
+export type TriplitCollectionFactoryOptions<
+  M extends Models<M>,
+  TQuery extends SchemaQuery<M>,
+  TItem extends object = TQuery extends { _output: infer O extends object } ? O : never
+> = TriplitCollectionFactoryBaseOptions<M, TQuery, TItem> & GetKeyOption<M, TQuery, TItem>;
+
 /**
  * Creates a new TanStack DB Collection that is kept in sync with a Triplit real-time query.
  *
@@ -84,6 +362,7 @@ export interface TriplitCollectionFactoryOptions<
  *
  * @param options - The configuration options for the Triplit-powered collection.
  * @returns An instance of a TanStack DB `Collection`, ready to be used with `useLiveQuery`.
+ *   Its `utils` expose the collection's sync status (see {@link TriplitCollectionUtils}).
  *
  * @example
  * // In your collections file:
@@ -96,7 +375,7 @@ export interface TriplitCollectionFactoryOptions<
  *   client,
  *   query: client.query('todos').where('completed', '=', false),
  *
- *   // --- Mandatory TanStack DB option ---
+ *   // --- Optional: defaults to reading the entity's `id` ---
  *   getKey: (todo) => todo.id,
  *
  *   // --- Recommended TanStack DB options for a great DX ---
@@ -116,15 +395,45 @@ export function createTriplitCollection<
   TItem extends object = TQuery extends { _output: infer O extends object } ? O : never
 >(
   options: TriplitCollectionFactoryOptions<M, TQuery, TItem>
-): Collection<TItem> {
+): Collection<TItem, string | number, TriplitCollectionUtils> {
   const {
     client,
     query,
-    getKey,
+    getKey = getKeyFromId,
     onError,
+    logger,
+    awaitServerConfirmation,
+    pageSize,
+    evictionPolicy,
+    onEvict,
+    codecs,
+    updateStrategy,
+    relationCollections,
+    loadStrategy,
+    awaitRemoteFulfilled,
+    remoteFulfilledTimeout,
+    retry,
+    mutationRetry,
+    checkPermissions,
+    sessionChangePolicy,
+    pauseWhenHidden,
     // Capture all other standard options into a 'rest' object.
     ...restConfig
-  } = options;
+  } = options as TriplitCollectionFactoryBaseOptions<M, TQuery, TItem> & {
+    getKey?: (item: TItem) => string | number;
+  };
+
+  // What cross-collection helpers like `createTriplitTransaction` need to know to route
+  // this collection's mutations. Registered once the collection exists (step 3).
+  const meta: TriplitCollectionMeta = {
+    client,
+    collectionName: query.collectionName as string,
+    onError,
+    codecs,
+    updateStrategy,
+    includedRelations: getIncludedRelations(query),
+    checkPermissions,
+  };
 
   // 1. Generate the core sync and mutation handlers using our lower-level adapter.
   const triplitAdapterOptions = createTriplitCollectionOptions<M, TQuery, TItem>(
@@ -133,15 +442,118 @@ export function createTriplitCollection<
       query,
       getKey,
       onError,
+      logger,
+      awaitServerConfirmation,
+      pageSize,
+      evictionPolicy,
+      onEvict,
+      codecs,
+      updateStrategy,
+      relationCollections,
+      loadStrategy,
+      awaitRemoteFulfilled,
+      remoteFulfilledTimeout,
+      retry,
+      mutationRetry,
+      checkPermissions,
+      sessionChangePolicy,
+      pauseWhenHidden,
+      onQueryChange: (nextQuery) => {
+        meta.includedRelations = getIncludedRelations(nextQuery);
+      },
     }
   );
 
+  // With `checkPermissions`, writes are checked against the rules loaded when the
+  // collection started syncing, so a denied write throws before TanStack DB applies it
+  // optimistically. Until then, the mutation handlers check them (and roll them back).
+  const checkWrite = (
+    operation: 'insert' | 'update' | 'delete',
+    mutation: { key: string | number; original: object; modified: object }
+  ) => {
+    const rules = getLoadedPermissionRules(client);
+    if (!rules) return;
+    assertTriplitWritePermitted(
+      client,
+      rules,
+      meta.collectionName,
+      operation,
+      mutation,
+      [mutation.key],
+      meta
+    );
+  };
+
   // 2. Create and return the final TanStack DB Collection, combining the adapter's
   //    logic with all the standard configuration properties passed in by the user.
   // Note: Type assertion needed due to TanStack DB's complex ResolveType system
   // At runtime, the types are compatible since TItem extends object
-  return createCollection({
+  const collection = createCollection({
     ...restConfig, // Spread passthrough options first (id, schema, rowUpdateMode, etc.)
     ...triplitAdapterOptions, // Then spread our adapter's core logic.
-  } as any) as unknown as Collection<TItem>;
-}
\ No newline at end of file
+    // TanStack DB validates inserts and updates (the latter merged into the current row)
+    // before applying them, which is where they are checked. Deletes aren't validated, so
+    // they are left to the mutation handler.
+    ...(checkPermissions && {
+      schema: withWriteCheck(restConfig.schema, (value) => {
+        const key = getKey(value as TItem);
+        const original = collection.get(key);
+        if (!original) {
+          checkWrite('insert', { key, original: {}, modified: value });
+        } else if (isMergedUpdate(original, value)) {
+          checkWrite('update', { key, original, modified: value });
+        }
+        // Otherwise it's an insert of an existing key, which TanStack DB rejects itself.
+      }),
+    }),
+  } as any) as unknown as Collection<TItem, string | number, TriplitCollectionUtils>;
+
+  // 3. Remember which client backs this collection so cross-collection helpers
+  //    like `createTriplitTransaction` can route its mutations, and so the collections
+  //    of a client can be enumerated and disposed of together.
+  registerTriplitCollection(collection, meta);
+  trackTriplitCollection(client, collection);
+
+  return collection;
+}
+
+/**
+ * Wraps a collection's schema (or, without one, a schema accepting any value) so `check`
+ * runs on every value that passes validation.
+ */
+function withWriteCheck<TItem extends object>(
+  schema: StandardSchema<TItem> | undefined,
+  check: (value: object) => void
+): StandardSchema<TItem> {
+  return {
+    '~standard': {
+      version: 1,
+      vendor: schema?.['~standard'].vendor ?? 'triplit',
+      validate: (value: unknown) => {
+        const result = schema ? schema['~standard'].validate(value) : { value: value as TItem };
+        // TanStack DB rejects asynchronous schemas itself.
+        if (result instanceof Promise || result.issues) return result;
+        check(result.value as object);
+        return result;
+      },
+    },
+  } as StandardSchema<TItem>;
+}
+
+/**
+ * Whether a validated value is an update of `original`: TanStack DB validates updates as
+ * the current row with the changes merged in, so the value carries every attribute of the
+ * row, in the same order. A new row that reuses the key of an existing one usually
+ * doesn't; one that does is indistinguishable from an update, and is checked as one.
+ */
+function isMergedUpdate(original: object, value: object): boolean {
+  const attributes = Object.keys(value);
+  return Object.keys(original).every((attribute, index) => attributes[index] === attribute);
+}
+
+/**
+ * The default `getKey`: every Triplit entity is identified by its primary `id`.
+ */
+function getKeyFromId(item: object): string | number {
+  return (item as { id: string | number }).id;
+}
@@ -1,6 +1,8 @@
 import type {
+  Collection,
   CollectionConfig,
-  
+  OperationType,
+  PendingMutation,
   SyncConfig,
   InsertMutationFn,
   UpdateMutationFn,
@@ -8,11 +10,37 @@ import type {
 } from '@tanstack/db';
 import {
   TriplitClient,
+  DBTransaction,
   SchemaQuery,
-  TriplitError,
-  FetchResult,
   Models,
 } from '@triplit/client';
+import { createConfirmationTracker } from './confirmation';
+import type {
+  TriplitConfirmationListener,
+  TriplitConfirmationStatus,
+} from './confirmation';
+import { createSyncStatusStore } from './sync-status';
+import type { TriplitSyncState } from './sync-status';
+import { createWindowedSubscription } from './pagination';
+import type { WindowedSubscription } from './pagination';
+import { decodeItem, encodeItem } from './codecs';
+import type { TriplitCodecs } from './codecs';
+import { TriplitPermissionError, toTriplitMutationError } from './errors';
+import type { TriplitErrorHandler, TriplitLogger } from './errors';
+import {
+  collectRelated,
+  freezeRelations,
+  getIncludedRelations,
+  omitRelations,
+} from './relations';
+import { evaluateWritePermission, loadPermissionRules } from './permissions';
+import type { TriplitPermissionOperation, TriplitPermissionRules } from './permissions';
+import { getRelationSink, registerRelationSink } from './registry';
+import { getRetryDelay } from './retry';
+import type { TriplitRetryPolicy } from './retry';
+import { buildTriplitUpdate } from './updates';
+import type { TriplitUpdateStrategy } from './updates';
+import { isDeepEqual, toItems } from './utils';
 
 /**
  * The internal configuration required by the low-level Triplit collection adapter.
@@ -26,9 +54,170 @@ export interface TriplitCollectionOptions<
   client: TriplitClient<M>;
   query: TQuery;
   getKey: (item: TItem) => string | number;
-  onError?: (error: TriplitError | Error) => void;
+  onError?: TriplitErrorHandler;
+  logger?: TriplitLogger;
+  awaitServerConfirmation?: boolean;
+  pageSize?: number;
+  evictionPolicy?: TriplitEvictionPolicy;
+  onEvict?: (items: TItem[]) => void;
+  codecs?: TriplitCodecs<TItem>;
+  updateStrategy?: TriplitUpdateStrategy;
+  relationCollections?: Record<string, Collection<any, any, any>>;
+  loadStrategy?: TriplitLoadStrategy;
+  awaitRemoteFulfilled?: boolean;
+  remoteFulfilledTimeout?: number;
+  retry?: boolean | TriplitRetryPolicy;
+  mutationRetry?: boolean | TriplitRetryPolicy;
+  checkPermissions?: boolean;
+  sessionChangePolicy?: TriplitSessionChangePolicy;
+  pauseWhenHidden?: boolean;
+  /** Called after `setQuery` replaced the query, e.g. to keep the registry up to date. */
+  onQueryChange?: (query: SchemaQuery<any>) => void;
+}
+
+/**
+ * The handle of a running sync that `setQuery` uses to re-subscribe in place.
+ * @internal
+ */
+interface ActiveSync {
+  /**
+   * Stops the current query and starts the new one; resolves once it has delivered. With
+   * `fetchFirst`, the query is fetched and reconciled before it is subscribed to.
+   *
+   * In paginated mode, the pages loaded so far are reopened and their rows reconciled at
+   * once, which also serves `fetchFirst`. With `firstPageOnly`, e.g. for a new query, only
+   * the first page is opened.
+   */
+  restart: (options?: { fetchFirst?: boolean; firstPageOnly?: boolean }) => Promise<void>;
+  /** Stops the current query without starting another one, for `pause`. */
+  stop: () => void;
+}
+
+/**
+ * Settings that control how pending mutations are translated into Triplit writes.
+ * They are shared with `createTriplitTransaction` through the collection registry.
+ * @internal
+ */
+export interface TriplitWriteOptions {
+  codecs?: TriplitCodecs<any>;
+  updateStrategy?: TriplitUpdateStrategy;
+  /** Aliases of the relations the query includes; they are never written back. */
+  includedRelations?: ReadonlyArray<string>;
 }
 
+/**
+ * What to do with a row that was pushed out of a limited query's window (e.g. by a
+ * newer insert) but still exists and matches the query's filter.
+ *
+ * - `delete`: Remove the row from the collection, mirroring the query window exactly.
+ * - `retain`: Keep the row in the collection, which can then hold more rows than the
+ *   query's `limit`. The row is refreshed from the local database whenever the window
+ *   changes, but no longer receives live updates of its own.
+ */
+export type TriplitEvictionPolicy = 'retain' | 'delete';
+
+/**
+ * How a collection loads its initial data before the live subscription takes over.
+ *
+ * - `local-first`, `local-and-remote`: Fetch with this Triplit fetch policy while
+ *   subscribing; whichever delivers first populates the collection.
+ * - `remote-first`, `remote-only`: Fetch from the server with this policy first, and
+ *   only subscribe once the fetch has settled, e.g. for server-rendered pages.
+ * - `local-only`: Fetch from and subscribe to the local cache only, never contacting
+ *   the server, e.g. for offline-only screens.
+ * - `subscribe-only`: Skip the upfront fetch and wait for the subscription.
+ */
+export type TriplitLoadStrategy =
+  | 'local-first'
+  | 'remote-first'
+  | 'local-only'
+  | 'remote-only'
+  | 'local-and-remote'
+  | 'subscribe-only';
+
+/**
+ * What a collection does with its rows when the client's session changes (via
+ * `startSession`, `endSession` or a new token). Either way it re-subscribes right away.
+ *
+ * - `keep`: Keep the current rows until the new session's first result, then reconcile
+ *   them in a single batch, like `setQuery` does.
+ * - `clear`: Remove every row immediately, so nothing of the previous session is shown.
+ */
+export type TriplitSessionChangePolicy = 'keep' | 'clear';
+
+/**
+ * Utility functions exposed on `collection.utils` of every Triplit-backed collection.
+ */
+export type TriplitCollectionUtils = {
+  /**
+   * Returns the current sync state of the collection: whether it is showing a cached
+   * fetch result or live subscription data, the client's connection status, and the
+   * last error and sync timestamps.
+   */
+  getSyncStatus: () => TriplitSyncState;
+  /**
+   * Registers a listener for sync state changes. Together with `getSyncStatus`, this
+   * matches the contract of React's `useSyncExternalStore`.
+   * @returns A function that removes the listener.
+   */
+  subscribeSyncStatus: (listener: (state: TriplitSyncState) => void) => () => void;
+  /**
+   * Returns whether the server has accepted the latest write of a row. Only tracked
+   * when `awaitServerConfirmation` is enabled; otherwise every row reports `confirmed`.
+   */
+  getConfirmationStatus: (key: string | number) => TriplitConfirmationStatus;
+  /**
+   * Registers a listener for per-row confirmation status changes.
+   * @returns A function that removes the listener.
+   */
+  subscribeConfirmationStatus: (listener: TriplitConfirmationListener) => () => void;
+  /**
+   * In paginated mode (`pageSize`), subscribes to the next page of the query. Every
+   * loaded page stays live. Resolves once the new page has been synced; a no-op when
+   * there is nothing more to load or the collection is not syncing.
+   */
+  loadMore: () => Promise<void>;
+  /** In paginated mode (`pageSize`), whether the query has rows beyond the loaded pages. */
+  hasMore: () => boolean;
+  /**
+   * Replaces the collection's query, e.g. when a filter changes, without recreating the
+   * collection. A running sync re-subscribes in place: the current rows and any optimistic
+   * state stay until the new query's first result, which is then reconciled against them
+   * in a single batch. The new query must target the same Triplit collection.
+   * @returns A promise that resolves once the new query's first result has been applied
+   *   (or has failed); immediately when the collection is not syncing.
+   */
+  setQuery: (query: SchemaQuery<any>) => Promise<void>;
+  /**
+   * Pauses syncing: unsubscribes from Triplit while keeping the current rows, e.g. while
+   * the collection is off screen. Writes still go through. Query changes and session
+   * changes take effect on `resume`. A no-op when already paused.
+   */
+  pause: () => void;
+  /**
+   * Resumes a paused collection: fetches its query once, reconciles the current rows
+   * against the result in a single batch, and then subscribes again. Doesn't resume a
+   * collection that is also paused because the page is hidden (see `pauseWhenHidden`).
+   * @returns A promise that resolves once that result has been applied (or has failed);
+   *   immediately when the collection is not paused or not syncing.
+   */
+  resume: () => Promise<void>;
+  /**
+   * Returns whether the Triplit schema's permissions let the current session insert the
+   * row, e.g. to disable a button. Evaluated locally against the client's token; rules
+   * that need the database (such as filters on relations) are left to Triplit and count
+   * as allowed.
+   */
+  canInsert: (item: object) => Promise<boolean>;
+  /**
+   * Returns whether the current session may update the row. With `changes`, the
+   * `postUpdate` rule is checked against the updated row as well. See `canInsert`.
+   */
+  canUpdate: (item: object, changes?: object) => Promise<boolean>;
+  /** Returns whether the current session may delete the row. See `canInsert`. */
+  canDelete: (item: object) => Promise<boolean>;
+};
+
 /**
  * Creates the core `CollectionConfig` object with sync and mutation handlers
  * for a Triplit-powered collection. This is the low-level primitive.
@@ -40,129 +229,735 @@ export function createTriplitCollectionOptions<
   TItem extends object = TQuery extends { _output: infer O extends object } ? O : never
 >(
   options: TriplitCollectionOptions<M, TQuery, TItem>
-): CollectionConfig<TItem> {
-  const { client, query, getKey, onError } = options;
+): CollectionConfig<TItem> & { utils: TriplitCollectionUtils } {
+  const {
+    client,
+    query,
+    getKey,
+    onError,
+    logger = console,
+    awaitServerConfirmation = false,
+    pageSize,
+    // Rows pushed past a page boundary are still part of the loaded pages, so paginated
+    // collections keep them by default.
+    evictionPolicy = pageSize === undefined ? 'delete' : 'retain',
+    onEvict,
+    codecs,
+    updateStrategy,
+    relationCollections = {},
+    onQueryChange,
+    loadStrategy,
+    awaitRemoteFulfilled = false,
+    remoteFulfilledTimeout = 10_000,
+    retry = false,
+    mutationRetry = false,
+    checkPermissions = false,
+    sessionChangePolicy = 'keep',
+    pauseWhenHidden = false,
+  } = options;
   const collectionName = query.collectionName as string & keyof M;
+  // The query can be replaced at runtime with `setQuery`.
+  let currentQuery: TQuery = query;
+  let includedRelations = getIncludedRelations(query);
+  const syncStatus = createSyncStatusStore();
+  const confirmations = createConfirmationTracker(client, collectionName);
 
-  // Note: Triplit handles optimistic mutations internally via its outbox system
-  // We don't need to manually track pending mutations
+  // Note: Triplit queues local writes in its outbox and syncs them in the background.
+  // By default the handlers resolve once a write is committed locally; server
+  // acceptance is only awaited when `awaitServerConfirmation` is enabled.
+
+  // With a `limit` or `pageSize`, rows can leave the synced window without leaving the query.
+  let isWindowed = pageSize !== undefined || query.limit !== undefined;
+  // The windowed subscription of the currently running sync, in paginated mode.
+  let activeWindows: WindowedSubscription | undefined;
+  // The currently running sync, if any.
+  let activeSync: ActiveSync | undefined;
+  // Why the collection is paused: by `pause`, and/or because the page is hidden. A
+  // paused collection doesn't run its query, even when its sync starts.
+  const pauseReasons = new Set<'manual' | 'hidden'>();
+  // An offline-only collection never asks the server, not even for live updates.
+  const subscriptionOptions = { localOnly: loadStrategy === 'local-only' };
+  // Whether readiness waits for the server; pointless when it is never contacted.
+  const waitsForRemote = awaitRemoteFulfilled && loadStrategy !== 'local-only';
+  const retryPolicy: TriplitRetryPolicy | undefined =
+    retry === true ? {} : retry || undefined;
+  const mutationRetryPolicy: TriplitRetryPolicy | undefined =
+    mutationRetry === true ? {} : mutationRetry || undefined;
 
   const syncFn: SyncConfig<TItem>['sync'] = (params) => {
     const { begin, write, commit, markReady, collection } = params;
 
     let isReady = false;
-    let unsubscribeFromTriplit: (() => void) | undefined;
+    let isClosed = false;
+    // Marks the collection ready with local data if the server takes too long.
+    let readyTimeout: ReturnType<typeof setTimeout> | undefined;
+    // Incremented every time the query is (re)started, to discard stale results.
+    let queryRun = 0;
+    // In paginated mode, how many pages to open when the query is started again.
+    let loadedPageCount = 1;
+    // Keys of the most recent remote snapshot, used to re-check deferred deletes.
+    let latestRemoteKeys = new Set<string | number>();
+    // Rows retained in the collection after being evicted from the query window.
+    const evictedKeys = new Set<string | number>();
+    // Rows other collections materialized into this one from their included relations,
+    // by source. They are kept even when this collection's own query doesn't match them.
+    const materializedKeys = new Map<object, Set<string | number>>();
+    // Identifies this sync as a source when fanning out into related collections.
+    const relationSource = {};
+
+    const isMaterialized = (key: string | number) => {
+      for (const keys of materializedKeys.values()) {
+        if (keys.has(key)) return true;
+      }
+      return false;
+    };
+
+    const unregisterRelationSink = registerRelationSink(
+      collection,
+      (source, relatedItems) => {
+        const previousKeys = materializedKeys.get(source) ?? new Set();
+        const entries = new Map<string | number, TItem>();
+        for (const item of relatedItems) {
+          const decoded = decodeItem(item as TItem, codecs);
+          entries.set(getKey(decoded), decoded);
+        }
+        const nextKeys = new Set(entries.keys());
+        if (nextKeys.size > 0) {
+          materializedKeys.set(source, nextKeys);
+        } else {
+          materializedKeys.delete(source);
+        }
+
+        begin();
+        for (const [key, relatedItem] of entries) {
+          const localItem = collection.syncedData.get(key);
+          if (localItem === undefined) {
+            write({ type: 'insert', value: relatedItem });
+          } else if (!isDeepEqual(localItem, relatedItem)) {
+            write({ type: 'update', value: relatedItem });
+          }
+        }
+        // Release rows the source no longer includes, unless something else still needs them.
+        for (const key of previousKeys) {
+          if (nextKeys.has(key) || isMaterialized(key) || latestRemoteKeys.has(key)) {
+            continue;
+          }
+          const localItem = collection.syncedData.get(key);
+          if (localItem !== undefined) {
+            write({ type: 'delete', value: localItem });
+          }
+        }
+        commit();
+      }
+    );
+
+    const releaseRelatedCollections = () => {
+      for (const target of Object.values(relationCollections)) {
+        getRelationSink(target)?.(relationSource, []);
+      }
+    };
+
+    const setReady = () => {
+      clearTimeout(readyTimeout);
+      readyTimeout = undefined;
+      if (isReady || isClosed) return;
+      markReady();
+      isReady = true;
+    };
+
+    syncStatus.reset();
+    if (waitsForRemote) {
+      readyTimeout = setTimeout(setReady, remoteFulfilledTimeout);
+    }
+    const unsubscribeFromConnection = client.onConnectionStatusChange(
+      (status) => syncStatus.setConnectionStatus(status),
+      true
+    );
+
+    /**
+     * Sorts rows that vanished from a windowed snapshot into rows that left the query
+     * (deleted, or no longer matching its filter) and rows that were only evicted from
+     * the window, by checking them against the query in the local database. Rows that
+     * left the query are deleted; evicted rows are handled per `evictionPolicy`, and
+     * retained ones are refreshed with their local version.
+     */
+    const resolveRemovedRows = async (keys: Array<string | number>) => {
+      try {
+        const stillMatching = await client.fetch(
+          {
+            ...currentQuery,
+            where: [...((currentQuery.where as any) ?? []), ['id', 'in', keys.map(String)]],
+            limit: undefined,
+            after: undefined,
+          } as TQuery,
+          { policy: 'local-only' }
+        );
+        if (isClosed) return;
+        const matchingItems = new Map(
+          toItems<TItem>(stillMatching).map((item) => {
+            const decoded = freezeRelations(decodeItem(item, codecs), includedRelations);
+            return [getKey(decoded), decoded] as const;
+          })
+        );
+        const toDelete: TItem[] = [];
+        const toUpdate: TItem[] = [];
+        const newlyEvicted: TItem[] = [];
+        for (const key of keys) {
+          // The row may have come back, or been removed, while we were checking.
+          const localItem = collection.syncedData.get(key);
+          if (latestRemoteKeys.has(key) || localItem === undefined) continue;
+          const matchingItem = matchingItems.get(key);
+          if (matchingItem === undefined) {
+            evictedKeys.delete(key);
+            toDelete.push(localItem);
+            continue;
+          }
+          if (!evictedKeys.has(key)) {
+            evictedKeys.add(key);
+            newlyEvicted.push(localItem);
+          }
+          if (evictionPolicy === 'delete') {
+            evictedKeys.delete(key);
+            toDelete.push(localItem);
+          } else if (!isDeepEqual(localItem, matchingItem)) {
+            toUpdate.push(matchingItem);
+          }
+        }
+        if (toDelete.length > 0 || toUpdate.length > 0) {
+          begin();
+          for (const item of toDelete) {
+            write({ type: 'delete', value: item });
+          }
+          for (const item of toUpdate) {
+            write({ type: 'update', value: item });
+          }
+          commit();
+        }
+        if (newlyEvicted.length > 0) {
+          onEvict?.(newlyEvicted);
+        }
+      } catch (error) {
+        logger.error('[Triplit Adapter] Failed to check rows outside the query window.', error);
+        onError?.(error as Error, {
+          phase: 'fetch',
+          collectionId: collection.id,
+          collectionName,
+          keys,
+          attempt: 1,
+        });
+      }
+    };
+
+    const reconcileSnapshot = (remoteItems: TItem[]) => {
+      // Materialize included entities into their own collections first, so joins never
+      // see a row here before the rows it refers to.
+      for (const [relation, target] of Object.entries(relationCollections)) {
+        getRelationSink(target)?.(relationSource, collectRelated(remoteItems, relation));
+      }
 
-    const reconcileSnapshot = (results: FetchResult<M, TQuery, 'many'>) => {
       begin();
-      const localItems = Array.from(collection.state.values());
-      const localKeys = new Set(localItems.map(getKey));
-      const remoteItems = results ? Array.from(results.values()) as TItem[] : [];
-      const remoteKeys = new Set(remoteItems.map(getKey));
+      // Diff against the synced rows, not `collection.state`: that view includes optimistic
+      // changes, so a snapshot echoing a write that is still persisting would look unchanged
+      // and the write would be lost once TanStack DB drops the optimistic state.
+      const localState = collection.syncedData;
+      // Decode and resolve every remote key exactly once so both passes below stay O(n).
+      const remoteEntries = remoteItems.map((item) => {
+        const decoded = freezeRelations(decodeItem(item, codecs), includedRelations);
+        return [getKey(decoded), decoded] as const;
+      });
+      const remoteKeys = new Set(remoteEntries.map(([key]) => key));
+      latestRemoteKeys = remoteKeys;
+      for (const key of remoteKeys) {
+        evictedKeys.delete(key);
+      }
+      const removedKeys: Array<string | number> = [];
 
       // Handle Deletes:
       // Triplit's outbox system automatically handles optimistic mutations and race conditions
       // We can safely delete items that exist locally but not in the remote snapshot
-      for (const key of localKeys) {
-        if (!remoteKeys.has(key)) {
-          // Find the original item being deleted
-          const originalItem = localItems.find((item: TItem) => getKey(item) === key);
-          if (originalItem) {
-            write({ type: 'delete', value: originalItem });
+      for (const [key, localItem] of localState) {
+        if (!remoteKeys.has(key) && !isMaterialized(key)) {
+          if (isWindowed) {
+            // The row may only have been pushed out of the window; check before deleting.
+            removedKeys.push(key);
+          } else {
+            write({ type: 'delete', value: localItem });
           }
         }
       }
 
       // Handle Inserts & Updates:
-      for (const typedItem of remoteItems) {
-        const key = getKey(typedItem);
-        if (localKeys.has(key)) {
-          write({ type: 'update', value: typedItem });
-        } else {
-          write({ type: 'insert', value: typedItem });
+      // Triplit delivers a full snapshot on every callback, so only rows whose
+      // content actually differs from the local copy are written. Unchanged rows
+      // produce no change events and therefore no re-renders downstream.
+      for (const [key, remoteItem] of remoteEntries) {
+        const localItem = localState.get(key);
+        if (localItem === undefined) {
+          write({ type: 'insert', value: remoteItem });
+        } else if (!isDeepEqual(localItem, remoteItem)) {
+          write({ type: 'update', value: remoteItem });
         }
       }
       commit();
+
+      if (removedKeys.length > 0) {
+        void resolveRemovedRows(removedKeys);
+      }
     };
-    
-    // To improve initial load speed, we perform a one-time fetch.
-    // This populates the UI quickly while the real-time subscription connects.
-    client.fetch(query)
-      .then((initialResults) => {
-        if (isReady) return; // The subscription already delivered data faster.
-        reconcileSnapshot(initialResults);
-        markReady();
-        isReady = true;
-      })
-      .catch((err) => {
-        // If the initial fetch fails, log the error and rely on the
-        // subscription to eventually connect and provide data.
-        console.error('[Triplit Adapter] Initial fetch failed, waiting for subscription.', err);
-        onError?.(err as Error);
+
+    const handleSubscriptionError = (error: Error, attempt: number) => {
+      logger.error('[Triplit Adapter] Subscription error:', error);
+      syncStatus.recordError(error);
+      onError?.(error, {
+        phase: 'subscribe',
+        collectionId: collection.id,
+        collectionName,
+        attempt,
       });
+    };
 
-    // Subscribe to the Triplit query for long-term, real-time updates.
-    unsubscribeFromTriplit = client.subscribe(
-      query,
-      (results) => {
-        // This reconciliation logic assumes Triplit's subscribe callback provides a full snapshot.
-        reconcileSnapshot(results as FetchResult<M, TQuery, 'many'>);
-        if (!isReady) {
-          markReady();
-          isReady = true;
-        }
+    /**
+     * Starts syncing the current query. Called once when the sync starts and again by
+     * `setQuery` and `resume`. Results of a previous run that arrive late are ignored.
+     * @param fetchFirst Whether to subscribe only once the initial fetch has settled.
+     * @returns A function that stops this run.
+     */
+    const startQuery = (onSettled?: () => void, fetchFirst = false) => {
+      const run = ++queryRun;
+      const isCurrentRun = () => !isClosed && run === queryRun;
+      let hasSnapshot = false;
+
+      const applySnapshot = (
+        items: TItem[],
+        source: 'fetch' | 'subscription',
+        isFromServer = false
+      ) => {
+        if (!isCurrentRun()) return;
+        reconcileSnapshot(items);
+        syncStatus.recordSync(source);
+        if (isFromServer) syncStatus.setLocalOnly(false);
+        hasSnapshot = true;
+        if (!waitsForRemote || isFromServer) setReady();
+        onSettled?.();
+        onSettled = undefined;
+      };
+
+      // Triplit calls this once the server has answered the subscription's query.
+      const handleRemoteFulfilled = () => {
+        if (!isCurrentRun()) return;
+        syncStatus.setLocalOnly(false);
+        setReady();
+      };
+
+      const handleRunError = (error: Error, attempt: number) => {
+        if (!isCurrentRun()) return;
+        handleSubscriptionError(error, attempt);
+        onSettled?.();
+        onSettled = undefined;
+      };
+
+      const retryTimers = new Set<ReturnType<typeof setTimeout>>();
+      /**
+       * Schedules `retry` per the retry policy, unless the run has stopped by then.
+       * @returns Whether a retry was scheduled.
+       */
+      const scheduleRetry = (error: Error, attempt: number, retry: () => void) => {
+        const delay = retryPolicy && getRetryDelay(retryPolicy, error, attempt);
+        if (delay === undefined) return false;
+        const timer = setTimeout(() => {
+          retryTimers.delete(timer);
+          if (isCurrentRun()) retry();
+        }, delay);
+        retryTimers.add(timer);
+        return true;
+      };
+      const clearRetryTimers = () => {
+        for (const timer of retryTimers) clearTimeout(timer);
+        retryTimers.clear();
+      };
+
+      if (pageSize !== undefined) {
+        // Paginated mode: reopen the pages loaded so far and let `loadMore` add more.
+        let windows: WindowedSubscription | undefined;
+        let windowFailures = 0;
+        const openWindows = (initialPageCount: number) => {
+          const opened = createWindowedSubscription<TItem>({
+            client,
+            query: currentQuery,
+            pageSize,
+            initialPageCount,
+            getKey,
+            subscriptionOptions,
+            onRemoteFulfilled: handleRemoteFulfilled,
+            onResults: (items) => {
+              windowFailures = 0;
+              applySnapshot(items, 'subscription');
+            },
+            onError: (error) => {
+              handleRunError(error, ++windowFailures);
+              if (!isCurrentRun()) return;
+              // Start over with as many pages as were loaded.
+              scheduleRetry(error, windowFailures, () => {
+                opened.unsubscribe();
+                openWindows(opened.getPageCount());
+              });
+            },
+          });
+          windows = opened;
+          activeWindows = opened;
+        };
+        openWindows(loadedPageCount);
+
+        return () => {
+          clearRetryTimers();
+          if (activeWindows === windows) activeWindows = undefined;
+          if (windows) {
+            loadedPageCount = windows.getPageCount();
+            windows.unsubscribe();
+          }
+        };
+      }
+
+      // Subscribe to the Triplit query for long-term, real-time updates.
+      // This reconciliation logic assumes Triplit's subscribe callback provides a full snapshot.
+      let unsubscribe: (() => void) | undefined;
+      let subscriptionFailures = 0;
+      const subscribe = () => {
+        unsubscribe = client.subscribe(
+          currentQuery,
+          (results) => {
+            subscriptionFailures = 0;
+            applySnapshot(toItems<TItem>(results), 'subscription');
+          },
+          (error) => {
+            handleRunError(error as Error, ++subscriptionFailures);
+            if (!isCurrentRun()) return;
+            scheduleRetry(error as Error, subscriptionFailures, () => {
+              unsubscribe?.();
+              subscribe();
+            });
+          },
+          { ...subscriptionOptions, onRemoteFulfilled: handleRemoteFulfilled }
+        );
+      };
+      const stop = () => {
+        clearRetryTimers();
+        unsubscribe?.();
+      };
+
+      if (loadStrategy === 'subscribe-only') {
+        subscribe();
+        return stop;
+      }
+
+      // To improve initial load speed, we perform a one-time fetch.
+      // This populates the UI quickly while the real-time subscription connects.
+      let fetchFailures = 0;
+      const fetchInitial = (): Promise<void> =>
+        (loadStrategy === undefined
+          ? client.fetch(currentQuery)
+          : client.fetch(currentQuery, { policy: loadStrategy })
+        )
+          .then((initialResults) => {
+            if (hasSnapshot) return; // The subscription already delivered data faster.
+            // Only `remote-only` guarantees the result came from the server.
+            applySnapshot(
+              toItems<TItem>(initialResults),
+              'fetch',
+              loadStrategy === 'remote-only'
+            );
+          })
+          .catch((err) => {
+            if (!isCurrentRun()) return;
+            fetchFailures += 1;
+            syncStatus.recordError(err as Error);
+            onError?.(err as Error, {
+              phase: 'fetch',
+              collectionId: collection.id,
+              collectionName,
+              attempt: fetchFailures,
+            });
+            const willRetry =
+              !hasSnapshot &&
+              scheduleRetry(err as Error, fetchFailures, () => {
+                if (!hasSnapshot) void fetchInitial();
+              });
+            if (willRetry) {
+              logger.error('[Triplit Adapter] Initial fetch failed, retrying.', err);
+            } else {
+              // Rely on the subscription to eventually connect and provide data.
+              logger.error('[Triplit Adapter] Initial fetch failed, waiting for subscription.', err);
+            }
+          });
+      const initialFetch = fetchInitial();
+
+      if (!fetchFirst && loadStrategy !== 'remote-first' && loadStrategy !== 'remote-only') {
+        subscribe();
+        return stop;
+      }
+
+      // Remote strategies load from the server first: subscribing right away would
+      // race the fetch with cached local results. A resumed collection catches up with
+      // one fetch, too.
+      let isStopped = false;
+      void initialFetch.then(() => {
+        if (!isStopped && isCurrentRun()) subscribe();
+      });
+      return () => {
+        isStopped = true;
+        stop();
+      };
+    };
+
+    const isHidden = () =>
+      typeof document !== 'undefined' && document.visibilityState === 'hidden';
+    const handleVisibilityChange = () => {
+      if (isHidden()) pauseFor('hidden');
+      else void resumeFor('hidden');
+    };
+    if (pauseWhenHidden && typeof document !== 'undefined') {
+      document.addEventListener('visibilitychange', handleVisibilityChange);
+      if (isHidden()) pauseFor('hidden');
+    }
+
+    // Load the permission rules up front, so writes can be checked before TanStack DB
+    // applies them. A failure surfaces in the mutation handlers, which load them again.
+    if (checkPermissions) void loadPermissionRules(client).catch(() => undefined);
+
+    const stopNothing = () => {};
+    let stopQuery = pauseReasons.size > 0 ? stopNothing : startQuery();
+
+    const sync: ActiveSync = {
+      restart: ({ fetchFirst = false, firstPageOnly = false } = {}) =>
+        new Promise<void>((resolve) => {
+          stopQuery();
+          if (firstPageOnly) loadedPageCount = 1;
+          evictedKeys.clear();
+          syncStatus.setLocalOnly(true);
+          if (pauseReasons.size > 0) {
+            stopQuery = stopNothing;
+            resolve();
+          } else {
+            stopQuery = startQuery(resolve, fetchFirst);
+          }
+        }),
+      stop: () => {
+        stopQuery();
+        stopQuery = stopNothing;
       },
-      (error) => {
-        console.error('[Triplit Adapter] Subscription error:', error);
-        onError?.(error as Error);
+    };
+    activeSync = sync;
+
+    // Rows of the previous session must not outlive it, e.g. after a logout or role switch.
+    // A refreshed token keeps the session's roles, so it doesn't re-sync (like Triplit).
+    const unsubscribeFromSession = client.onConnectionOptionsChange((changes) => {
+      if (!('token' in changes) || changes.tokenRefresh || isClosed) return;
+      if (sessionChangePolicy === 'clear') {
+        begin();
+        for (const item of collection.syncedData.values()) {
+          write({ type: 'delete', value: item });
+        }
+        commit();
+        latestRemoteKeys = new Set();
+        evictedKeys.clear();
       }
-    );
+      void sync.restart();
+    });
 
     // Return the cleanup function.
     return () => {
-      unsubscribeFromTriplit?.();
+      isClosed = true;
+      clearTimeout(readyTimeout);
+      if (activeSync === sync) activeSync = undefined;
+      unsubscribeFromConnection();
+      unsubscribeFromSession();
+      if (pauseWhenHidden && typeof document !== 'undefined') {
+        document.removeEventListener('visibilitychange', handleVisibilityChange);
+        // The next sync checks the page's visibility again.
+        pauseReasons.delete('hidden');
+        syncStatus.setPaused(pauseReasons.size > 0);
+      }
+      unregisterRelationSink();
+      releaseRelatedCollections();
+      stopQuery();
     };
   };
 
-  const onInsert: InsertMutationFn<TItem> = async ({ transaction }) => {
-    // Triplit handles optimistic mutations automatically via its outbox system
-    try {
-      for (const mutation of transaction.mutations) {
-        await client.insert(collectionName, mutation.modified as any);
+  const pauseFor = (reason: 'manual' | 'hidden') => {
+    if (pauseReasons.has(reason)) return;
+    pauseReasons.add(reason);
+    if (pauseReasons.size > 1) return;
+    syncStatus.setPaused(true);
+    activeSync?.stop();
+  };
+
+  const resumeFor = (reason: 'manual' | 'hidden'): Promise<void> => {
+    if (!pauseReasons.delete(reason) || pauseReasons.size > 0) return Promise.resolve();
+    syncStatus.setPaused(false);
+    return activeSync?.restart({ fetchFirst: true }) ?? Promise.resolve();
+  };
+
+  /**
+   * Commits every mutation of one TanStack DB transaction inside a single
+   * `client.transact` call, so they are applied atomically: if any write fails,
+   * Triplit rolls back the whole transaction and none of the mutations persist.
+   *
+   * With `awaitServerConfirmation`, the handler additionally waits until the server has
+   * accepted every written entity, so TanStack DB keeps the optimistic state until then
+   * and rolls it back if the server rejects any of the writes, clearing the transaction's
+   * pending changes from the outbox.
+   *
+   * With `mutationRetry`, a local commit that fails with a retryable error is retried with
+   * backoff while the optimistic state stays in place; only a permanent failure (or running
+   * out of attempts) rolls it back. With `awaitServerConfirmation` as well, a retryable
+   * server rejection is retried too: Triplit keeps the rejected writes in its outbox, so
+   * they are sent again and the handler waits for the new outcome.
+   */
+  const commitMutations = async (
+    operation: OperationType,
+    mutations: ReadonlyArray<PendingMutation<TItem>>,
+    collectionId: string | undefined
+  ) => {
+    const keys = mutations.map((mutation) => mutation.key);
+    const context = { phase: operation, collectionId, collectionName, keys, mutations };
+    let attempt = 1;
+    const getDelay = (error: unknown) =>
+      mutationRetryPolicy && getRetryDelay(mutationRetryPolicy, error as Error, attempt);
+    // The delay before retrying a write the server rejected, if it is retried.
+    let rejectionDelay: number | undefined;
+    const track = () =>
+      confirmations.track(keys, (error) => (rejectionDelay = getDelay(error)) !== undefined);
+    let confirmation = awaitServerConfirmation ? track() : undefined;
+    // The mutation being written when the local commit failed.
+    let failedMutation: PendingMutation<TItem> | undefined;
+    const write = async () => {
+      for (; ; attempt++) {
+        try {
+          return await writeMutations(operation, mutations, (mutation) => {
+            failedMutation = mutation;
+          });
+        } catch (error) {
+          const delay = getDelay(error);
+          if (delay === undefined) throw error;
+          // Report the transient failure; the final one is reported below.
+          onError?.(error as Error, { ...context, attempt });
+          await new Promise((resolve) => setTimeout(resolve, delay));
+        }
       }
+    };
+    const confirm = async () => {
+      for (; ; attempt++) {
+        try {
+          return await confirmation?.settled;
+        } catch (error) {
+          const delay = rejectionDelay;
+          if (delay === undefined) throw error;
+          rejectionDelay = undefined;
+          onError?.(error as Error, { ...context, attempt });
+          await new Promise((resolve) => setTimeout(resolve, delay));
+          confirmation = track();
+          await client.syncWrites();
+        }
+      }
+    };
+    try {
+      if (checkPermissions) await assertPermitted(operation, mutations, keys);
+      await (mutationRetryPolicy ? enqueueMutations(write) : write());
+      await confirm();
     } catch (error) {
-      onError?.(error as Error);
+      confirmation?.cancel();
+      onError?.(error as Error, { ...context, attempt });
       // Re-throwing the error is critical for TanStack DB's automatic optimistic rollback.
-      throw error;
+      // It is wrapped so the rollback reason and the affected row can be told apart.
+      throw toTriplitMutationError(error, {
+        collectionName,
+        operation,
+        key:
+          failedMutation?.key ??
+          confirmation?.getRejectedKey() ??
+          (keys.length === 1 ? keys[0] : undefined),
+        keys,
+      });
     }
   };
 
-  const onUpdate: UpdateMutationFn<TItem> = async ({ transaction }) => {
-    // Triplit handles optimistic mutations automatically via its outbox system
-    try {
-      for (const mutation of transaction.mutations) {
-        await client.update(
-          collectionName,
-          String(mutation.key),
-          mutation.changes as any
-        );
+  const writeMutations = (
+    operation: OperationType,
+    mutations: ReadonlyArray<PendingMutation<TItem>>,
+    onWrite: (mutation: PendingMutation<TItem> | undefined) => void
+  ) =>
+    client.transact(async (tx) => {
+      for (const mutation of mutations) {
+        onWrite(mutation);
+        await applyTriplitMutation(tx, collectionName, operation, mutation, {
+          codecs,
+          updateStrategy,
+          includedRelations,
+        });
       }
-    } catch (error) {
-      onError?.(error as Error);
-      throw error;
+      // Every write went through; a failure from here on belongs to the whole transaction.
+      onWrite(undefined);
+    });
+
+  // While retries are enabled, commits run one at a time in order, so a later write to a
+  // row can never land before an earlier one that is still being retried.
+  let mutationQueue: Promise<unknown> = Promise.resolve();
+  const enqueueMutations = <T>(write: () => Promise<T>): Promise<T> => {
+    const queued = mutationQueue.then(write);
+    mutationQueue = queued.catch(() => undefined);
+    return queued;
+  };
+
+  const isPermitted = async (
+    operation: TriplitPermissionOperation,
+    entity: TItem,
+    prev?: TItem
+  ) =>
+    isTriplitWritePermitted(
+      client,
+      await loadPermissionRules(client),
+      collectionName,
+      operation,
+      entity,
+      prev,
+      { codecs, includedRelations }
+    );
+
+  const canUpdate = async (item: TItem, changes?: Partial<TItem>) =>
+    (await isPermitted('update', item, item)) &&
+    (!changes || isPermitted('postUpdate', { ...item, ...changes }, item));
+
+  /**
+   * With `checkPermissions`, rejects a transaction the current session isn't permitted
+   * to write before anything is sent to Triplit. Writes made through the collection were
+   * usually checked before their optimistic apply already; this also covers writes made
+   * before the permission rules were loaded.
+   */
+  const assertPermitted = async (
+    operation: OperationType,
+    mutations: ReadonlyArray<PendingMutation<TItem>>,
+    keys: ReadonlyArray<string | number>
+  ) => {
+    const rules = await loadPermissionRules(client);
+    for (const mutation of mutations) {
+      assertTriplitWritePermitted(client, rules, collectionName, operation, mutation, keys, {
+        codecs,
+        includedRelations,
+      });
     }
   };
 
-  const onDelete: DeleteMutationFn<TItem> = async ({ transaction }) => {
+  const onInsert: InsertMutationFn<TItem> = async ({ transaction, collection }) => {
     // Triplit handles optimistic mutations automatically via its outbox system
-    try {
-      for (const mutation of transaction.mutations) {
-        await client.delete(collectionName, String(mutation.key));
-      }
-    } catch (error) {
-      onError?.(error as Error);
-      throw error;
-    }
+    await commitMutations('insert', transaction.mutations, collection?.id);
+  };
+
+  const onUpdate: UpdateMutationFn<TItem> = async ({ transaction, collection }) => {
+    await commitMutations('update', transaction.mutations, collection?.id);
+  };
+
+  const onDelete: DeleteMutationFn<TItem> = async ({ transaction, collection }) => {
+    await commitMutations('delete', transaction.mutations, collection?.id);
   };
 
   return {
@@ -171,5 +966,149 @@ export function createTriplitCollectionOptions<
     onInsert,
     onUpdate,
     onDelete,
+    utils: {
+      getSyncStatus: syncStatus.getSnapshot,
+      subscribeSyncStatus: syncStatus.subscribe,
+      getConfirmationStatus: confirmations.getStatus,
+      subscribeConfirmationStatus: confirmations.subscribe,
+      loadMore: () => activeWindows?.loadMore() ?? Promise.resolve(),
+      hasMore: () => activeWindows?.hasMore() ?? false,
+      setQuery: (nextQuery) => {
+        if (nextQuery.collectionName !== collectionName) {
+          throw new Error(
+            `[Triplit Adapter] setQuery expects a query on "${collectionName}", got "${nextQuery.collectionName}".`
+          );
+        }
+        currentQuery = nextQuery as TQuery;
+        includedRelations = getIncludedRelations(nextQuery);
+        isWindowed = pageSize !== undefined || nextQuery.limit !== undefined;
+        onQueryChange?.(nextQuery);
+        return activeSync?.restart({ firstPageOnly: true }) ?? Promise.resolve();
+      },
+      pause: () => pauseFor('manual'),
+      resume: () => resumeFor('manual'),
+      canInsert: (item) => isPermitted('insert', item as TItem),
+      canUpdate: (item, changes) => canUpdate(item as TItem, changes as Partial<TItem>),
+      canDelete: (item) => isPermitted('delete', item as TItem, item as TItem),
+    },
   };
-}
\ No newline at end of file
+}
+
+/**
+ * Applies a single TanStack DB pending mutation to an open Triplit transaction.
+ * The operation is passed explicitly so callers that already know it (the
+ * per-operation handlers) don't depend on `mutation.type`. Keys are converted to
+ * strings, as Triplit entity ids are always strings, and values are encoded with
+ * the collection's codecs. Included relations are stripped, and updates are
+ * translated according to the `updateStrategy` (see `buildTriplitUpdate`).
+ * @internal
+ */
+export async function applyTriplitMutation<
+  M extends Models<M>,
+  TItem extends object
+>(
+  tx: DBTransaction<M>,
+  collectionName: string & keyof M,
+  operation: OperationType,
+  mutation: PendingMutation<TItem>,
+  writeOptions: TriplitWriteOptions = {}
+): Promise<void> {
+  const { codecs, updateStrategy, includedRelations = [] } = writeOptions;
+  if (includedRelations.length > 0) {
+    mutation = {
+      ...mutation,
+      modified: omitRelations(mutation.modified, includedRelations),
+      changes: omitRelations(mutation.changes, includedRelations),
+      original: omitRelations(mutation.original, includedRelations),
+    };
+  }
+  switch (operation) {
+    case 'insert':
+      await tx.insert(
+        collectionName as any,
+        encodeItem(mutation.modified, codecs) as any
+      );
+      break;
+    case 'update':
+      await tx.update(
+        collectionName as any,
+        String(mutation.key),
+        buildTriplitUpdate(mutation, codecs, updateStrategy) as any
+      );
+      break;
+    case 'delete':
+      await tx.delete(collectionName as any, String(mutation.key));
+      break;
+  }
+}
+
+/**
+ * Evaluates the schema's permission rules for a write against the client's current
+ * token. Rules that can't be decided locally count as allowed; Triplit enforces them.
+ */
+function isTriplitWritePermitted(
+  client: TriplitClient<any>,
+  rules: TriplitPermissionRules,
+  collectionName: string,
+  operation: TriplitPermissionOperation,
+  entity: object,
+  prev: object | undefined,
+  writeOptions: TriplitWriteOptions = {}
+): boolean {
+  const { codecs, includedRelations = [] } = writeOptions;
+  const toStored = (item: object) =>
+    encodeItem(omitRelations(item, includedRelations), codecs) as Record<string, any>;
+  return (
+    evaluateWritePermission({
+      ...rules,
+      variables: client.vars,
+      collectionName,
+      operation,
+      entity: toStored(entity),
+      prev: prev && toStored(prev),
+    }) !== false
+  );
+}
+
+/**
+ * Throws a `TriplitPermissionError` if the schema's permission rules don't allow a write
+ * for the client's current token. An update is checked against the row before the change
+ * (`update`) and after it (`postUpdate`).
+ * @param keys The keys of every row of the rejected transaction, for the error.
+ * @internal
+ */
+export function assertTriplitWritePermitted(
+  client: TriplitClient<any>,
+  rules: TriplitPermissionRules,
+  collectionName: string,
+  operation: OperationType,
+  mutation: Pick<PendingMutation<any>, 'key' | 'original' | 'modified'>,
+  keys: ReadonlyArray<string | number>,
+  writeOptions: TriplitWriteOptions = {}
+): void {
+  const isAllowed = (
+    permission: TriplitPermissionOperation,
+    entity: object,
+    prev?: object
+  ) =>
+    isTriplitWritePermitted(client, rules, collectionName, permission, entity, prev, writeOptions);
+  const original = mutation.original as object;
+  const isPermitted =
+    operation === 'insert'
+      ? isAllowed('insert', mutation.modified)
+      : operation === 'update'
+      ? isAllowed('update', original, original) &&
+        isAllowed('postUpdate', mutation.modified, original)
+      : isAllowed('delete', original, original);
+  if (isPermitted) return;
+  throw new TriplitPermissionError(
+    `[Triplit Adapter] Failed to ${operation} row "${String(mutation.key)}" in "${collectionName}": the permissions of the current session don't allow it.`,
+    {
+      collectionName,
+      operation,
+      key: mutation.key,
+      keys: [...keys],
+      cause: undefined,
+    }
+  );
+}
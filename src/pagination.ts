@@ -0,0 +1,215 @@
+import type { TriplitClient, SchemaQuery, QueryAfter } from '@triplit/client';
+import { getValueAtPath, toItems } from './utils';
+
+/**
+ * Options for `createWindowedSubscription`.
+ * @internal
+ */
+export interface WindowedSubscriptionOptions<TItem extends object> {
+  client: TriplitClient<any>;
+  query: SchemaQuery<any>;
+  pageSize: number;
+  /**
+   * How many windows to open up front, e.g. to restore the pages loaded before a restart.
+   * Results are held back until all of them have delivered. Defaults to 1.
+   */
+  initialPageCount?: number;
+  getKey: (item: TItem) => string | number;
+  /** Passed to every window's `client.subscribe` call. */
+  subscriptionOptions?: { localOnly?: boolean };
+  /** Called whenever the server has fulfilled every loaded window. */
+  onRemoteFulfilled?: () => void;
+  /** Called with the union of all loaded windows whenever any window changes. */
+  onResults: (items: TItem[]) => void;
+  onError: (error: Error) => void;
+}
+
+/**
+ * A set of live, cursor-delimited windows over one Triplit query.
+ * @internal
+ */
+export interface WindowedSubscription {
+  /** Whether the query has rows beyond the last loaded window. */
+  hasMore: () => boolean;
+  /**
+   * Subscribes to the next window, starting after the last row of the current last
+   * window. Resolves once the new window has delivered its first results. Calls made
+   * while a window is still loading, or when there is nothing more to load, are no-ops.
+   */
+  loadMore: () => Promise<void>;
+  /** How many windows are open, including one that is still loading. */
+  getPageCount: () => number;
+  unsubscribe: () => void;
+}
+
+interface QueryWindow<TItem> {
+  /** The cursor the window starts after; `undefined` for the first window. */
+  after: QueryAfter | undefined;
+  items: TItem[];
+  hasNext: boolean;
+  isRemoteFulfilled: boolean;
+  unsubscribe: () => void;
+}
+
+/**
+ * Subscribes to a query page by page. Every window is its own Triplit subscription
+ * using `limit` and an `after` cursor, so all loaded rows stay live. Each window
+ * over-subscribes by one row to learn whether another page exists, and follows the
+ * last row of the window before it.
+ * @internal
+ */
+export function createWindowedSubscription<TItem extends object>(
+  options: WindowedSubscriptionOptions<TItem>
+): WindowedSubscription {
+  const {
+    client,
+    query,
+    pageSize,
+    initialPageCount = 1,
+    getKey,
+    subscriptionOptions,
+    onRemoteFulfilled,
+    onResults,
+    onError,
+  } = options;
+
+  // Cursors need a total order, so make `id` the final tie-breaker (as Triplit's own
+  // pagination helpers do).
+  const baseOrder: Array<[string, 'ASC' | 'DESC']> = [...((query.order as any) ?? [])];
+  if (baseOrder.length === 0 || baseOrder[baseOrder.length - 1][0] !== 'id') {
+    baseOrder.push(['id', 'ASC']);
+  }
+
+  const windows: Array<QueryWindow<TItem>> = [];
+  // Resolves once the newest window has delivered its first results; `undefined` after that.
+  let loading: Promise<void> | undefined;
+  let isClosed = false;
+  // Whether the initial windows are still opening, one after the other.
+  let isRestoring = initialPageCount > 1;
+
+  const emit = () => {
+    if (isRestoring) return;
+    const seen = new Set<string | number>();
+    const merged: TItem[] = [];
+    for (const window of windows) {
+      for (const item of window.items) {
+        const key = getKey(item);
+        if (seen.has(key)) continue;
+        seen.add(key);
+        merged.push(item);
+      }
+    }
+    onResults(merged);
+  };
+
+  /** The cursor right after the last row of a window, where the next window starts. */
+  const getCursorAfter = (window: QueryWindow<TItem>): QueryAfter | undefined => {
+    const lastItem = window.items[window.items.length - 1];
+    if (!lastItem) return window.after;
+    return [baseOrder.map(([path]) => getValueAtPath(lastItem, path)) as any, false];
+  };
+
+  /**
+   * Moves the window after the given one to start right after its last row again. An
+   * insert or delete in a window shifts rows across its boundary, which would otherwise
+   * leave a gap between the windows (or overlap them). A moved window keeps its rows
+   * until its new subscription delivers, and in turn moves the window after it.
+   */
+  const realignNextWindow = (window: QueryWindow<TItem>) => {
+    const next = windows[windows.indexOf(window) + 1];
+    if (!next) return;
+    const after = getCursorAfter(window);
+    if (JSON.stringify(after) === JSON.stringify(next.after)) return;
+    next.after = after;
+    subscribe(next, () => {});
+  };
+
+  const subscribe = (window: QueryWindow<TItem>, onDelivered: () => void) => {
+    window.unsubscribe();
+    // Results of a replaced subscription may still arrive; only the current one counts.
+    let isCurrent = true;
+    const unsubscribe = client.subscribe(
+      { ...query, order: baseOrder, limit: pageSize + 1, after: window.after } as any,
+      (results) => {
+        if (!isCurrent) return;
+        const items = toItems<TItem>(results);
+        window.items = items.slice(0, pageSize);
+        window.hasNext = items.length > pageSize;
+        onDelivered();
+        realignNextWindow(window);
+        emit();
+      },
+      (error) => {
+        if (!isCurrent) return;
+        onDelivered();
+        onError(error as Error);
+      },
+      {
+        ...subscriptionOptions,
+        onRemoteFulfilled: () => {
+          if (!isCurrent) return;
+          window.isRemoteFulfilled = true;
+          if (!isClosed && windows.every((loaded) => loaded.isRemoteFulfilled)) {
+            onRemoteFulfilled?.();
+          }
+        },
+      }
+    );
+    window.unsubscribe = () => {
+      isCurrent = false;
+      unsubscribe();
+    };
+  };
+
+  const openWindow = (after: QueryAfter | undefined) => {
+    const window: QueryWindow<TItem> = {
+      after,
+      items: [],
+      hasNext: false,
+      isRemoteFulfilled: false,
+      unsubscribe: () => {},
+    };
+    windows.push(window);
+
+    let hasDelivered = false;
+    let resolveLoading!: () => void;
+    loading = new Promise<void>((resolve) => {
+      resolveLoading = resolve;
+    });
+    const pending = loading;
+    subscribe(window, () => {
+      if (hasDelivered) return;
+      hasDelivered = true;
+      if (loading === pending) loading = undefined;
+      resolveLoading();
+      if (!isRestoring) return;
+      if (windows.length < initialPageCount && window.hasNext && window.items.length > 0) {
+        void openWindow(getCursorAfter(window));
+      } else {
+        isRestoring = false;
+      }
+    });
+    return pending;
+  };
+
+  openWindow(undefined);
+
+  return {
+    hasMore: () => windows.length > 0 && windows[windows.length - 1].hasNext,
+    loadMore: () => {
+      if (loading) return loading;
+      const last = windows[windows.length - 1];
+      if (isClosed || !last || !last.hasNext || last.items.length === 0) {
+        return Promise.resolve();
+      }
+      return openWindow(getCursorAfter(last));
+    },
+    getPageCount: () => windows.length,
+    unsubscribe: () => {
+      isClosed = true;
+      for (const window of windows.splice(0)) {
+        window.unsubscribe();
+      }
+    },
+  };
+}
@@ -0,0 +1,279 @@
+import type { DBSchema, Models, TriplitClient } from '@triplit/client';
+import { getValueAtPath } from './utils';
+
+/**
+ * The write operations Triplit checks permissions for. An update is checked twice:
+ * `update` against the row before the change and `postUpdate` against the row after it.
+ * @internal
+ */
+export type TriplitPermissionOperation = 'insert' | 'update' | 'postUpdate' | 'delete';
+
+/**
+ * What a local permission check needs to know about the session and the write.
+ * @internal
+ */
+export interface TriplitPermissionCheck {
+  /** The collections of the Triplit schema, including their `permissions`. */
+  collections: Models | undefined;
+  /** The roles of the Triplit schema. */
+  roles: Record<string, { match: Record<string, any> }> | undefined;
+  /** The client's variables (`client.vars`): `$token`, `$session` and `$global`. */
+  variables: Record<string, any>;
+  collectionName: string;
+  operation: TriplitPermissionOperation;
+  /** The row the rule is evaluated against, encoded as it is stored in Triplit. */
+  entity: Record<string, any>;
+  /** The row before the write, available to rules as `$prev`. */
+  prev?: Record<string, any>;
+}
+
+/**
+ * The parts of a Triplit schema that permission checks read.
+ * @internal
+ */
+export type TriplitPermissionRules = Pick<TriplitPermissionCheck, 'collections' | 'roles'>;
+
+interface CachedPermissionRules {
+  /** The rules, or the pending load of them. */
+  rules: Promise<TriplitPermissionRules>;
+  /** The rules once they have loaded, for checks that have to run synchronously. */
+  loaded?: TriplitPermissionRules;
+}
+
+// The permission rules of each client's schema, loaded once and replaced whenever the
+// schema changes (e.g. when a new version is synced from the server).
+const cachedRules = new WeakMap<TriplitClient<any>, CachedPermissionRules>();
+
+const toPermissionRules = (schema: DBSchema | undefined): TriplitPermissionRules => ({
+  collections: schema?.collections as Models | undefined,
+  roles: schema?.roles,
+});
+
+/**
+ * Loads the permission rules of the client's schema, once per client. Later calls reuse
+ * them, and `getLoadedPermissionRules` returns them as soon as they have loaded.
+ * @internal
+ */
+export function loadPermissionRules(
+  client: TriplitClient<any>
+): Promise<TriplitPermissionRules> {
+  const cached = cachedRules.get(client);
+  if (cached) return cached.rules;
+
+  const entry: CachedPermissionRules = {
+    rules: client.getSchema().then((schema) => {
+      const rules = toPermissionRules(schema);
+      if (!entry.loaded) entry.loaded = rules;
+      return entry.loaded;
+    }),
+  };
+  // A failed load is tried again by the next call.
+  entry.rules.catch(() => {
+    if (cachedRules.get(client) === entry) cachedRules.delete(client);
+  });
+  const unsubscribe = client.db.onSchemaChange((change) => {
+    if (cachedRules.get(client) !== entry) {
+      unsubscribe();
+    } else if (change.successful) {
+      entry.loaded = toPermissionRules(change.newSchema);
+      entry.rules = Promise.resolve(entry.loaded);
+    }
+  });
+  cachedRules.set(client, entry);
+  return entry.rules;
+}
+
+/**
+ * Returns the permission rules last loaded for the client, or `undefined` if they
+ * haven't been loaded yet.
+ * @internal
+ */
+export function getLoadedPermissionRules(
+  client: TriplitClient<any>
+): TriplitPermissionRules | undefined {
+  return cachedRules.get(client)?.loaded;
+}
+
+/**
+ * Evaluates the permission rules of a Triplit schema for a write, mirroring what the
+ * Triplit server does: collections without `permissions` are open, a session matching
+ * none of the roles that grant the operation is denied, and otherwise the write is
+ * allowed when the row satisfies the filter of any of the session's roles.
+ *
+ * Rules that can't be decided from the row alone (filters on relations, subqueries,
+ * unknown operators or variables) evaluate to `undefined`, as only Triplit can check them.
+ * @returns `true` when allowed, `false` when denied, `undefined` when undecidable.
+ * @internal
+ */
+export function evaluateWritePermission(check: TriplitPermissionCheck): boolean | undefined {
+  const { collections, roles, variables, collectionName, operation, entity, prev } = check;
+  const collection = collections?.[collectionName];
+  const permissions = collection?.permissions as
+    | Record<string, Partial<Record<TriplitPermissionOperation, { filter?: unknown }>>>
+    | undefined;
+  if (!permissions) return true;
+
+  const relations = new Set(Object.keys(collection?.relationships ?? {}));
+  const results: Array<boolean | undefined> = [];
+  for (const [roleKey, role] of Object.entries(roles ?? {})) {
+    const roleVars = matchPattern(role.match, variables.$token ?? {});
+    if (roleVars === undefined) continue;
+    const filter = permissions[roleKey]?.[operation]?.filter;
+    if (!Array.isArray(filter)) continue;
+    // Triplit treats an empty filter as access denied.
+    results.push(
+      filter.length === 0
+        ? false
+        : evaluateFilters(filter, 'and', {
+            entity,
+            relations,
+            variables: { ...variables, $role: roleVars, $prev: prev },
+          })
+    );
+  }
+  // `postUpdate` rules are optional, so a session without one is not denied.
+  if (results.length === 0) return operation === 'postUpdate';
+  return combine(results, 'or');
+}
+
+interface FilterScope {
+  entity: Record<string, any>;
+  relations: Set<string>;
+  variables: Record<string, any>;
+}
+
+// The value of a variable that isn't set, which Triplit may resolve differently.
+const UNRESOLVED = Symbol('unresolved');
+const VARIABLE_SCOPES = new Set(['$role', '$token', '$session', '$global', '$prev']);
+
+function evaluateFilters(
+  filters: unknown[],
+  mod: 'and' | 'or',
+  scope: FilterScope
+): boolean | undefined {
+  return combine(
+    filters.map((filter) => evaluateFilter(filter, scope)),
+    mod
+  );
+}
+
+function evaluateFilter(filter: unknown, scope: FilterScope): boolean | undefined {
+  if (typeof filter === 'boolean') return filter;
+  if (Array.isArray(filter) && filter.length === 3 && typeof filter[0] === 'string') {
+    const [path, operator, operand] = filter as [string, string, unknown];
+    if (scope.relations.has(path.split('.')[0])) return undefined;
+    const value = resolveOperand(operand, scope.variables);
+    if (value === UNRESOLVED) return undefined;
+    return compare(getValueAtPath(scope.entity, path), operator, value);
+  }
+  if (
+    typeof filter === 'object' &&
+    filter !== null &&
+    'mod' in filter &&
+    'filters' in filter &&
+    Array.isArray(filter.filters) &&
+    (filter.mod === 'and' || filter.mod === 'or')
+  ) {
+    return evaluateFilters(filter.filters, filter.mod, scope);
+  }
+  // Subqueries and relationship filters need the database.
+  return undefined;
+}
+
+function resolveOperand(operand: unknown, variables: Record<string, any>): unknown {
+  if (typeof operand !== 'string' || !operand.startsWith('$')) return operand;
+  const [variableScope, ...path] = operand.split('.');
+  if (!VARIABLE_SCOPES.has(variableScope)) return UNRESOLVED;
+  const value = path.length
+    ? getValueAtPath(variables[variableScope], path.join('.'))
+    : variables[variableScope];
+  return value === undefined ? UNRESOLVED : value;
+}
+
+function compare(value: unknown, operator: string, operand: unknown): boolean | undefined {
+  const isCollection = value instanceof Set || Array.isArray(value);
+  switch (operator) {
+    case 'isDefined':
+      return (value !== undefined) === Boolean(operand);
+    case 'has':
+    case '!has': {
+      if (!isCollection) return undefined;
+      const has = Array.from(value).some((entry) => isSameValue(entry, operand));
+      return operator === 'has' ? has : !has;
+    }
+    case 'in':
+    case 'nin': {
+      const options = operand instanceof Set ? Array.from(operand) : operand;
+      if (isCollection || !Array.isArray(options)) return undefined;
+      const isIn = options.some((option) => isSameValue(value, option));
+      return operator === 'in' ? isIn : !isIn;
+    }
+  }
+  if (isCollection) return undefined;
+  switch (operator) {
+    case '=':
+      return isSameValue(value, operand);
+    case '!=':
+      return !isSameValue(value, operand);
+  }
+  const a = toComparable(value);
+  const b = toComparable(operand);
+  if (a === null || a === undefined || b === null || b === undefined) return false;
+  switch (operator) {
+    case '<':
+      return a < b;
+    case '<=':
+      return a <= b;
+    case '>':
+      return a > b;
+    case '>=':
+      return a >= b;
+    default:
+      return undefined;
+  }
+}
+
+function isSameValue(a: unknown, b: unknown): boolean {
+  return toComparable(a) === toComparable(b);
+}
+
+function toComparable(value: unknown): any {
+  return value instanceof Date ? value.getTime() : value;
+}
+
+function combine(
+  results: Array<boolean | undefined>,
+  mod: 'and' | 'or'
+): boolean | undefined {
+  const decisive = mod === 'and' ? false : true;
+  if (results.includes(decisive)) return decisive;
+  return results.includes(undefined) ? undefined : !decisive;
+}
+
+/**
+ * Matches a role's `match` pattern against the token's claims, like Triplit does: every
+ * key of the pattern must be present in the token, values starting with `$` capture the
+ * claim as a role variable, and other values must be equal.
+ * @returns The captured role variables, or `undefined` when the token doesn't match.
+ */
+function matchPattern(
+  pattern: Record<string, any>,
+  claims: Record<string, any>
+): Record<string, any> | undefined {
+  const roleVars: Record<string, any> = {};
+  for (const key in pattern) {
+    const matcher = pattern[key];
+    const claim = claims[key];
+    if (claim === undefined) return undefined;
+    if (typeof matcher === 'object' && matcher !== null) {
+      const nested = matchPattern(matcher, claim);
+      if (nested === undefined) return undefined;
+      Object.assign(roleVars, nested);
+    } else if (typeof matcher === 'string' && matcher.startsWith('$')) {
+      roleVars[matcher.slice(1)] = claim;
+    } else if (matcher !== claim) {
+      return undefined;
+    }
+  }
+  return roleVars;
+}
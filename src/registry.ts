@@ -0,0 +1,164 @@
+import type { Collection } from '@tanstack/db';
+import type { TriplitClient } from '@triplit/client';
+import type { TriplitErrorHandler } from './errors';
+import type { TriplitCollectionUtils, TriplitWriteOptions } from './options';
+
+/** A collection created by `createTriplitCollection`. */
+type TriplitCollection = Collection<any, string | number, TriplitCollectionUtils>;
+
+/**
+ * The Triplit-specific details the adapter remembers about every collection
+ * created by `createTriplitCollection`.
+ * @internal
+ */
+export interface TriplitCollectionMeta extends TriplitWriteOptions {
+  client: TriplitClient<any>;
+  collectionName: string;
+  onError?: TriplitErrorHandler;
+  /** Whether writes are checked against the schema's permissions before being sent. */
+  checkPermissions?: boolean;
+}
+
+const collectionMeta = new WeakMap<object, TriplitCollectionMeta>();
+
+/**
+ * Associates a TanStack DB collection with the Triplit client and collection
+ * name that back it, so helpers that only see the collection (e.g. through
+ * `mutation.collection`) can find their way back to Triplit.
+ * @internal
+ */
+export function registerTriplitCollection(
+  collection: object,
+  meta: TriplitCollectionMeta
+): void {
+  collectionMeta.set(collection, meta);
+}
+
+/**
+ * Returns the Triplit metadata for a collection, or `undefined` if the collection
+ * was not created by `createTriplitCollection`.
+ * @internal
+ */
+export function getTriplitCollectionMeta(
+  collection: object
+): TriplitCollectionMeta | undefined {
+  return collectionMeta.get(collection);
+}
+
+// The live collections of every client, by collection ID. Unlike the metadata, these are
+// strong references: they are what `disposeAll` has to reach.
+const clientCollections = new Map<TriplitClient<any>, Map<string, TriplitCollection>>();
+
+/**
+ * Adds a collection to the collections of its client. A collection with the same ID
+ * replaces the previous one, e.g. when a module is hot-reloaded, and the previous one is
+ * torn down so its Triplit subscription doesn't outlive it unreachable.
+ * @internal
+ */
+export function trackTriplitCollection(
+  client: TriplitClient<any>,
+  collection: TriplitCollection
+): void {
+  let collections = clientCollections.get(client);
+  if (!collections) {
+    collections = new Map();
+    clientCollections.set(client, collections);
+  }
+  const replaced = collections.get(collection.id);
+  collections.set(collection.id, collection);
+  if (replaced && replaced !== collection) void replaced.cleanup();
+}
+
+/**
+ * Removes a collection from the collections of its client, e.g. once it was torn down.
+ * @internal
+ */
+export function untrackTriplitCollection(collection: TriplitCollection): void {
+  for (const [client, collections] of clientCollections) {
+    if (collections.get(collection.id) !== collection) continue;
+    collections.delete(collection.id);
+    if (collections.size === 0) clientCollections.delete(client);
+  }
+}
+
+/**
+ * Returns the collections `createTriplitCollection` created for a client (or for every
+ * client), in creation order. Collections stay registered until they are disposed with
+ * `disposeAll` or a collection family releases them.
+ */
+export function getTriplitCollections(client?: TriplitClient<any>): TriplitCollection[] {
+  const registries = client
+    ? [clientCollections.get(client) ?? new Map<string, TriplitCollection>()]
+    : Array.from(clientCollections.values());
+  return registries.flatMap((collections) => Array.from(collections.values()));
+}
+
+/**
+ * Tears down the collections of a client (or of every client): stops their Triplit
+ * subscriptions, clears their data and unregisters them. Useful on logout, between
+ * tests and before a hot module reload.
+ */
+export async function disposeAll(client?: TriplitClient<any>): Promise<void> {
+  const collections = getTriplitCollections(client);
+  for (const collection of collections) {
+    untrackTriplitCollection(collection);
+  }
+  await Promise.all(collections.map((collection) => collection.cleanup()));
+}
+
+/**
+ * Pauses syncing of the collections of a client (or of every client). See
+ * `collection.utils.pause`.
+ */
+export function pauseAll(client?: TriplitClient<any>): void {
+  for (const collection of getTriplitCollections(client)) {
+    collection.utils.pause();
+  }
+}
+
+/**
+ * Resumes the paused collections of a client (or of every client). See
+ * `collection.utils.resume`.
+ * @returns A promise that resolves once every resumed collection has synced again.
+ */
+export async function resumeAll(client?: TriplitClient<any>): Promise<void> {
+  await Promise.all(
+    getTriplitCollections(client).map((collection) => collection.utils.resume())
+  );
+}
+
+/**
+ * Receives related entities that another collection's query included, so they can be
+ * materialized into the collection they belong to. Each call replaces everything the
+ * given `source` contributed before; an empty list releases its rows.
+ * @internal
+ */
+export type TriplitRelationSink = (source: object, items: object[]) => void;
+
+const relationSinks = new WeakMap<object, TriplitRelationSink>();
+
+/**
+ * Registers the relation sink of a collection while its sync is running.
+ * @returns A function that removes the sink again.
+ * @internal
+ */
+export function registerRelationSink(
+  collection: object,
+  sink: TriplitRelationSink
+): () => void {
+  relationSinks.set(collection, sink);
+  return () => {
+    if (relationSinks.get(collection) === sink) relationSinks.delete(collection);
+  };
+}
+
+/**
+ * Returns the relation sink of a collection, or `undefined` if it is not a Triplit
+ * collection or is not currently syncing.
+ * @internal
+ */
+export function getRelationSink(
+  collection: object
+): TriplitRelationSink | undefined {
+  return relationSinks.get(collection);
+}
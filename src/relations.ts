@@ -0,0 +1,94 @@
+import type { SchemaQuery } from '@triplit/client';
+import { toItems } from './utils';
+
+/**
+ * Returns the aliases of the relations a query includes (via `.Include()`,
+ * `.SubqueryOne()` or `.SubqueryMany()`). Their values are nested into every result.
+ * @internal
+ */
+export function getIncludedRelations(query: SchemaQuery<any>): string[] {
+  return Object.keys((query as { include?: object }).include ?? {});
+}
+
+/**
+ * Returns a copy of an item without its included relations, or the item itself when it
+ * has none of them. Used before writing to Triplit, which would reject the nested objects.
+ * @internal
+ */
+export function omitRelations<TItem extends object>(
+  item: TItem,
+  relations: ReadonlyArray<string>
+): TItem {
+  // Mutations don't always carry every snapshot (e.g. no `original` on inserts).
+  if (!item || !relations.some((relation) => relation in item)) return item;
+  const result = { ...item } as Record<string, unknown>;
+  for (const relation of relations) {
+    delete result[relation];
+  }
+  return result as TItem;
+}
+
+/**
+ * Returns a copy of an item read from Triplit whose included relations are frozen.
+ * Related entities belong to other collections, so they are read-only here; edits must
+ * go through the related collection. The relations are copied rather than frozen in
+ * place, as Triplit may reuse its result objects.
+ * @internal
+ */
+export function freezeRelations<TItem extends object>(
+  item: TItem,
+  relations: ReadonlyArray<string>
+): TItem {
+  if (!relations.some((relation) => relation in item)) return item;
+  const result = { ...item } as Record<string, unknown>;
+  for (const relation of relations) {
+    if (relation in result) result[relation] = frozenCopy(result[relation]);
+  }
+  return result as TItem;
+}
+
+/**
+ * Collects the related entities of one relation across a result set. "One" relations
+ * hold an entity or `null`, "many" relations an array (or `Map`) of entities.
+ * @internal
+ */
+export function collectRelated(
+  items: ReadonlyArray<object>,
+  relation: string
+): object[] {
+  const related: object[] = [];
+  for (const item of items) {
+    const value = (item as Record<string, unknown>)[relation];
+    if (value === null || value === undefined) continue;
+    if (Array.isArray(value) || value instanceof Map) {
+      related.push(...toItems<object>(value));
+    } else if (typeof value === 'object') {
+      related.push(value);
+    }
+  }
+  return related;
+}
+
+function frozenCopy(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return Object.freeze(value.map(frozenCopy));
+  }
+  if (value instanceof Map) {
+    return Object.freeze(
+      new Map(Array.from(value, ([key, entry]) => [key, frozenCopy(entry)]))
+    );
+  }
+  if (
+    typeof value === 'object' &&
+    value !== null &&
+    !(value instanceof Date) &&
+    !(value instanceof Set)
+  ) {
+    return Object.freeze(
+      Object.fromEntries(
+        Object.entries(value).map(([key, entry]) => [key, frozenCopy(entry)])
+      )
+    );
+  }
+  return value;
+}
@@ -0,0 +1,72 @@
+import type { TriplitError } from '@triplit/client';
+
+/**
+ * How a collection retries a failed initial fetch, a failed subscription, or (with
+ * `mutationRetry`) a failed write.
+ */
+export interface TriplitRetryPolicy {
+  /**
+   * How many times to retry after consecutive failures before giving up. Defaults to 5;
+   * use `Infinity` to retry forever.
+   */
+  maxAttempts?: number;
+  /** The delay before the first retry, in milliseconds. Defaults to 1000. */
+  initialDelay?: number;
+  /** The upper bound of the delay between retries, in milliseconds. Defaults to 30000. */
+  maxDelay?: number;
+  /** The factor the delay grows by with each retry. Defaults to 2. */
+  factor?: number;
+  /**
+   * Whether to randomize each delay between half and all of its value, so many clients
+   * recovering from the same outage don't reconnect in lockstep. Defaults to `true`.
+   */
+  jitter?: boolean;
+  /**
+   * Decides whether an error is worth retrying. `attempt` is the number of the retry
+   * that would follow, starting at 1. Defaults to `isRetryableTriplitError`.
+   */
+  shouldRetry?: (error: TriplitError | Error, attempt: number) => boolean;
+}
+
+/**
+ * The default retry predicate. Triplit errors with a 4xx status (an invalid query, a
+ * permission or a schema violation) fail again on every retry, so they are permanent;
+ * server-side and connection errors are retried. The exception is `TokenExpiredError`,
+ * which succeeds again once the session's token has been refreshed. Errors that don't
+ * come from Triplit, such as a throwing codec, are permanent too.
+ */
+export function isRetryableTriplitError(error: TriplitError | Error): boolean {
+  if (!isTriplitError(error)) return false;
+  if (error.name === 'TokenExpiredError') return true;
+  return !(error.status >= 400 && error.status < 500);
+}
+
+/**
+ * Returns how long to wait before the given retry, or `undefined` when the policy gives up.
+ * @internal
+ */
+export function getRetryDelay(
+  policy: TriplitRetryPolicy,
+  error: TriplitError | Error,
+  attempt: number
+): number | undefined {
+  const {
+    maxAttempts = 5,
+    initialDelay = 1000,
+    maxDelay = 30_000,
+    factor = 2,
+    jitter = true,
+    shouldRetry = isRetryableTriplitError,
+  } = policy;
+  if (attempt > maxAttempts || !shouldRetry(error, attempt)) return undefined;
+  const delay = Math.min(maxDelay, initialDelay * factor ** (attempt - 1));
+  return jitter ? delay / 2 + (Math.random() * delay) / 2 : delay;
+}
+
+function isTriplitError(error: unknown): error is TriplitError {
+  return (
+    typeof error === 'object' &&
+    error !== null &&
+    (error as { __isTriplitError?: boolean }).__isTriplitError === true
+  );
+}
@@ -0,0 +1,277 @@
+import type { StandardSchema } from '@tanstack/db';
+import type {
+  CollectionNameFromModels,
+  DataType,
+  Models,
+  ReadModel,
+  RecordType,
+} from '@triplit/client';
+import { omitRelations } from './relations';
+
+/**
+ * A Triplit schema: either the collections object passed to `new TriplitClient({ schema })`
+ * (e.g. from `S.Collections({...})`), or the `{ collections }` object returned by
+ * `client.getSchema()`.
+ */
+export type TriplitSchemaSource<M extends Models<M>> = M | { collections: M };
+
+interface SchemaIssue {
+  message: string;
+  path: PropertyKey[];
+}
+
+/**
+ * Creates a synchronous StandardSchema validator for one collection of a Triplit schema,
+ * so a collection can validate mutations against the same definition Triplit uses instead
+ * of a hand-maintained Zod or TypeBox copy.
+ *
+ * The validator mirrors Triplit's own write rules:
+ * - Required attributes must be present; `S.Optional` and `nullable` attributes may be omitted or `null`.
+ * - Missing attributes with a `default` are filled in, including `S.Id()` and the `now`,
+ *   `nanoid`, `uuid`, `uuidv4`, `uuidv7` and `Set.empty` default functions.
+ * - `enum` strings must be one of the listed values.
+ * - Dates accept a `Date`, a timestamp or a date string and are output as `Date`s.
+ * - Sets accept a `Set` or an array and are output as `Set`s; their items are validated.
+ * - Attributes that are not in the schema are rejected. Relations defined in the schema
+ *   (as included by `.Include()`) are passed through unchecked.
+ *
+ * @param schema The Triplit schema.
+ * @param collectionName The collection to validate against.
+ * @returns A StandardSchema that can be passed as the `schema` option of `createTriplitCollection`.
+ *
+ * @example
+ * ```ts
+ * const todos = createTriplitCollection({
+ *   client,
+ *   query: client.query('todos'),
+ *   schema: triplitSchemaToStandardSchema(schema, 'todos'),
+ * });
+ * ```
+ */
+export function triplitSchemaToStandardSchema<
+  M extends Models<M>,
+  CN extends CollectionNameFromModels<M>
+>(
+  schema: TriplitSchemaSource<M>,
+  collectionName: CN
+): StandardSchema<ReadModel<M, CN>> {
+  const collections = (
+    'collections' in schema && isCollectionsObject(schema.collections)
+      ? schema.collections
+      : schema
+  ) as Models;
+  const collection = collections[collectionName];
+  if (!collection) {
+    throw new Error(
+      `Collection "${collectionName}" does not exist in the Triplit schema.`
+    );
+  }
+  const model = collection.schema;
+  // Items of queries with `.Include()` carry their relations; those are not attributes.
+  const relations = Object.keys(collection.relationships ?? {});
+
+  return {
+    '~standard': {
+      version: 1,
+      vendor: 'triplit',
+      validate: (value: unknown) => {
+        const issues: SchemaIssue[] = [];
+        const isObject = typeof value === 'object' && value !== null;
+        const output = validateValue(
+          model,
+          isObject ? omitRelations(value, relations) : value,
+          [],
+          issues
+        );
+        if (issues.length > 0) return { issues };
+        for (const relation of relations) {
+          if (isObject && relation in value) {
+            (output as Record<string, unknown>)[relation] = (
+              value as Record<string, unknown>
+            )[relation];
+          }
+        }
+        return { value: output as ReadModel<M, CN> };
+      },
+    },
+  } as StandardSchema<ReadModel<M, CN>>;
+}
+
+function isCollectionsObject(value: unknown): boolean {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    Object.values(value).every(
+      (collection) =>
+        typeof collection === 'object' &&
+        collection !== null &&
+        'schema' in collection
+    )
+  );
+}
+
+/**
+ * Validates a defined, non-null value against a data type, returning the value in its
+ * decoded form (or the input unchanged when it is invalid).
+ */
+function validateValue(
+  type: DataType,
+  value: unknown,
+  path: PropertyKey[],
+  issues: SchemaIssue[]
+): unknown {
+  const fail = (message: string) => {
+    issues.push({ message, path });
+    return value;
+  };
+
+  switch (type.type) {
+    case 'string': {
+      if (typeof value !== 'string') return fail('Expected a string');
+      const options: ReadonlyArray<string> | undefined = type.config?.enum;
+      if (options && !options.includes(value)) {
+        return fail(`Expected one of: ${options.join(', ')}`);
+      }
+      return value;
+    }
+    case 'number':
+      if (typeof value !== 'number' || Number.isNaN(value)) {
+        return fail('Expected a number');
+      }
+      return value;
+    case 'boolean':
+      if (typeof value !== 'boolean') return fail('Expected a boolean');
+      return value;
+    case 'date': {
+      const date =
+        value instanceof Date
+          ? value
+          : typeof value === 'string' || typeof value === 'number'
+          ? new Date(value)
+          : undefined;
+      if (!date || Number.isNaN(date.getTime())) return fail('Expected a date');
+      return date;
+    }
+    case 'set': {
+      if (!(value instanceof Set) && !Array.isArray(value)) {
+        return fail('Expected a set');
+      }
+      const items = new Set<unknown>();
+      for (const item of value) {
+        if (item === null || item === undefined) {
+          issues.push({ message: 'Set items cannot be empty', path });
+          continue;
+        }
+        items.add(validateValue(type.items, item, path, issues));
+      }
+      return items;
+    }
+    case 'record':
+      return validateRecord(type as RecordType, value, path, issues);
+    case 'json':
+      return value;
+    default:
+      return fail(`Unsupported type "${(type as DataType).type}"`);
+  }
+}
+
+function validateRecord(
+  type: RecordType,
+  value: unknown,
+  path: PropertyKey[],
+  issues: SchemaIssue[]
+): unknown {
+  if (
+    typeof value !== 'object' ||
+    value === null ||
+    Array.isArray(value) ||
+    value instanceof Date ||
+    value instanceof Set ||
+    value instanceof Map
+  ) {
+    issues.push({ message: 'Expected an object', path });
+    return value;
+  }
+
+  const input = value as Record<string, unknown>;
+  const properties = type.properties as Record<string, DataType>;
+  const output: Record<string, unknown> = {};
+
+  for (const key of Object.keys(input)) {
+    if (!(key in properties)) {
+      issues.push({ message: 'Unrecognized attribute', path: [...path, key] });
+    }
+  }
+
+  for (const [key, propertyType] of Object.entries(properties)) {
+    const propertyPath = [...path, key];
+    let propertyValue = input[key];
+    if (propertyValue === undefined && propertyType.config?.default !== undefined) {
+      propertyValue = resolveDefault(propertyType, propertyType.config.default);
+    }
+
+    if (propertyValue === undefined || propertyValue === null) {
+      const canBeEmpty =
+        propertyType.config?.optional || propertyType.config?.nullable;
+      if (!canBeEmpty) {
+        issues.push({ message: 'Required', path: propertyPath });
+      } else if (key in input || propertyValue === null) {
+        output[key] = propertyValue;
+      }
+      continue;
+    }
+
+    output[key] = validateValue(propertyType, propertyValue, propertyPath, issues);
+  }
+
+  return output;
+}
+
+/**
+ * Resolves a schema default, either a literal value or one of Triplit's default functions.
+ */
+function resolveDefault(type: DataType, value: any): unknown {
+  if (value === null || typeof value !== 'object' || !('func' in value)) {
+    return value;
+  }
+  const args: any[] = value.args ?? [];
+  switch (value.func) {
+    case 'now':
+      return type.type === 'date' ? new Date() : new Date().toISOString();
+    case 'nanoid':
+      return nanoid(args[0] ?? 21);
+    case 'uuid':
+    case 'uuidv4':
+      return crypto.randomUUID();
+    case 'uuidv7':
+      return uuidv7();
+    case 'Set.empty':
+      return new Set();
+    default:
+      return undefined;
+  }
+}
+
+const NANOID_ALPHABET =
+  'useandom-26T198340PX75pxJACKVERYMINDBUSHWOLF_GQZbfghjklqvwyzrict';
+
+function nanoid(size: number): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(size));
+  let id = '';
+  for (const byte of bytes) {
+    id += NANOID_ALPHABET[byte & 63];
+  }
+  return id;
+}
+
+function uuidv7(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(16));
+  const timestamp = Date.now();
+  for (let i = 0; i < 6; i++) {
+    bytes[i] = Math.floor(timestamp / 2 ** (8 * (5 - i))) & 0xff;
+  }
+  bytes[6] = (bytes[6] & 0x0f) | 0x70;
+  bytes[8] = (bytes[8] & 0x3f) | 0x80;
+  const hex = Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+}
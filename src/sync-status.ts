@@ -0,0 +1,157 @@
+import type { ConnectionStatus, TriplitError } from '@triplit/client';
+
+/**
+ * The overall sync status of a Triplit-backed collection.
+ *
+ * - `connecting`: The Triplit client is (re)connecting to the server.
+ * - `fetching`: Waiting for the first result of the live subscription.
+ * - `live`: The collection is fed by the real-time subscription.
+ * - `offline`: The client's connection to the server is closed. Data is served from the local cache.
+ * - `error`: The most recent fetch or subscription attempt failed.
+ * - `paused`: Syncing was paused with `collection.utils.pause()`.
+ */
+export type TriplitSyncStatus =
+  | 'connecting'
+  | 'fetching'
+  | 'live'
+  | 'offline'
+  | 'error'
+  | 'paused';
+
+/**
+ * A snapshot of a collection's sync state. A new object is created on every change,
+ * so snapshots can be compared by reference (e.g. by React's `useSyncExternalStore`).
+ */
+export interface TriplitSyncState {
+  /** The overall status, derived from the fields below. */
+  status: TriplitSyncStatus;
+  /**
+   * Where the data currently in the collection came from: nothing yet, the one-time
+   * initial fetch, or the real-time subscription.
+   */
+  source: 'none' | 'fetch' | 'subscription';
+  /**
+   * Whether the data in the collection may come from the local cache only, because the
+   * server has not yet fulfilled the query. Always `true` with `loadStrategy: 'local-only'`.
+   */
+  isLocalOnly: boolean;
+  /** The connection status reported by the `TriplitClient`. */
+  connectionStatus: ConnectionStatus | undefined;
+  /** The last error raised by the fetch or the subscription, if any. */
+  lastError: TriplitError | Error | undefined;
+  /** When `lastError` occurred, as a millisecond timestamp. */
+  lastErrorAt: number | undefined;
+  /** When data was last written into the collection, as a millisecond timestamp. */
+  lastSyncedAt: number | undefined;
+}
+
+/**
+ * A subscribable store holding the sync state of a single collection.
+ */
+export interface TriplitSyncStatusStore {
+  /** Returns the current sync state snapshot. */
+  getSnapshot: () => TriplitSyncState;
+  /**
+   * Registers a listener that is called with the new snapshot whenever the sync state changes.
+   * @returns A function that removes the listener.
+   */
+  subscribe: (listener: (state: TriplitSyncState) => void) => () => void;
+}
+
+/**
+ * The writable side of a sync status store, driven by the adapter's sync function.
+ * @internal
+ */
+export interface SyncStatusController extends TriplitSyncStatusStore {
+  reset: () => void;
+  recordSync: (source: 'fetch' | 'subscription') => void;
+  recordError: (error: TriplitError | Error) => void;
+  setLocalOnly: (isLocalOnly: boolean) => void;
+  setConnectionStatus: (connectionStatus: ConnectionStatus) => void;
+  setPaused: (isPaused: boolean) => void;
+}
+
+/**
+ * Creates the sync status store for one collection.
+ * @internal
+ */
+export function createSyncStatusStore(): SyncStatusController {
+  const listeners = new Set<(state: TriplitSyncState) => void>();
+  // Whether the latest fetch/subscription event was a failure. Tracked separately from
+  // `lastError`, which is kept around for display after the collection recovers.
+  let hasUnresolvedError = false;
+  let isPaused = false;
+
+  const derive = (
+    fields: Omit<TriplitSyncState, 'status'>
+  ): TriplitSyncState => {
+    let status: TriplitSyncStatus;
+    if (isPaused) {
+      status = 'paused';
+    } else if (hasUnresolvedError) {
+      status = 'error';
+    } else if (
+      fields.connectionStatus === 'CLOSED' ||
+      fields.connectionStatus === 'CLOSING'
+    ) {
+      status = 'offline';
+    } else if (fields.connectionStatus === 'CONNECTING') {
+      status = 'connecting';
+    } else if (fields.source === 'subscription') {
+      status = 'live';
+    } else {
+      status = 'fetching';
+    }
+    return { ...fields, status };
+  };
+
+  let state = derive({
+    source: 'none',
+    isLocalOnly: true,
+    connectionStatus: undefined,
+    lastError: undefined,
+    lastErrorAt: undefined,
+    lastSyncedAt: undefined,
+  });
+
+  const update = (patch: Partial<Omit<TriplitSyncState, 'status'>>) => {
+    const { status: _status, ...fields } = state;
+    state = derive({ ...fields, ...patch });
+    for (const listener of listeners) {
+      listener(state);
+    }
+  };
+
+  return {
+    getSnapshot: () => state,
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    reset: () => {
+      hasUnresolvedError = false;
+      update({ source: 'none', isLocalOnly: true });
+    },
+    recordSync: (source) => {
+      hasUnresolvedError = false;
+      update({ source, lastSyncedAt: Date.now() });
+    },
+    recordError: (error) => {
+      hasUnresolvedError = true;
+      update({ lastError: error, lastErrorAt: Date.now() });
+    },
+    setLocalOnly: (isLocalOnly) => {
+      if (state.isLocalOnly !== isLocalOnly) update({ isLocalOnly });
+    },
+    setConnectionStatus: (connectionStatus) => {
+      update({ connectionStatus });
+    },
+    setPaused: (paused) => {
+      if (isPaused === paused) return;
+      isPaused = paused;
+      update({});
+    },
+  };
+}
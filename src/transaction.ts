@@ -0,0 +1,169 @@
+import { createTransaction } from '@tanstack/db';
+import type {
+  MutationFn,
+  PendingMutation,
+  Transaction,
+  TransactionConfig,
+} from '@tanstack/db';
+import type { TriplitClient } from '@triplit/client';
+import { toTriplitMutationError } from './errors';
+import { applyTriplitMutation, assertTriplitWritePermitted } from './options';
+import { loadPermissionRules } from './permissions';
+import { getTriplitCollectionMeta } from './registry';
+import type { TriplitCollectionMeta } from './registry';
+
+/**
+ * Configuration options for `createTriplitTransaction`. Accepts everything TanStack DB's
+ * `createTransaction` does, except that `mutationFn` becomes optional.
+ */
+export interface TriplitTransactionConfig<T extends object = Record<string, unknown>>
+  extends Omit<TransactionConfig<T>, 'mutationFn'> {
+  /**
+   * An optional function for persisting any mutations that don't belong to a
+   * Triplit-backed collection (e.g. a REST-backed collection touched by the same
+   * transaction). It runs after every Triplit transaction has committed, and receives
+   * the full TanStack DB transaction. If omitted, a transaction containing such
+   * mutations is rejected.
+   */
+  mutationFn?: MutationFn<T>;
+}
+
+/**
+ * Creates a TanStack DB transaction that commits mutations spanning several
+ * Triplit-backed collections atomically.
+ *
+ * Mutations made inside `tx.mutate()` on collections created by `createTriplitCollection`
+ * are grouped by the `TriplitClient` behind them, and each group is committed as a single
+ * `client.transact` call. If any write fails, Triplit rolls back the whole group and the
+ * error is rethrown, so TanStack DB rolls back every optimistic change of the transaction.
+ *
+ * Collections backed by *different* clients cannot share a Triplit transaction; each
+ * client's group is committed separately, in the order the groups first appear.
+ *
+ * Mutations of collections created with `checkPermissions` are checked against the
+ * schema's permissions before their group is sent, like the collection's own writes.
+ *
+ * The groups are committed here rather than by the collections' mutation handlers, so
+ * `mutationRetry` and `awaitServerConfirmation` don't apply: a failed commit is rolled back
+ * right away instead of being retried (and doesn't queue behind the collection's retried
+ * writes), and the transaction resolves once it is committed locally, without waiting for
+ * the server to accept it.
+ *
+ * @param config - Standard TanStack DB transaction options, plus an optional `mutationFn`.
+ * @returns A TanStack DB `Transaction`.
+ *
+ * @example
+ * const tx = createTriplitTransaction();
+ * tx.mutate(() => {
+ *   todosCollection.update(todoId, (draft) => { draft.projectId = targetProjectId; });
+ *   projectsCollection.update(sourceProjectId, (draft) => { draft.todoCount -= 1; });
+ *   projectsCollection.update(targetProjectId, (draft) => { draft.todoCount += 1; });
+ * });
+ * await tx.isPersisted.promise;
+ */
+export function createTriplitTransaction<T extends object = Record<string, unknown>>(
+  config: TriplitTransactionConfig<T> = {}
+): Transaction<T> {
+  const { mutationFn, ...restConfig } = config;
+
+  return createTransaction<T>({
+    ...restConfig,
+    mutationFn: async (params) => {
+      const groups = new Map<
+        TriplitClient<any>,
+        Array<{ meta: TriplitCollectionMeta; mutation: PendingMutation<T> }>
+      >();
+      let hasForeignMutations = false;
+
+      for (const mutation of params.transaction.mutations) {
+        const meta = getTriplitCollectionMeta(mutation.collection);
+        if (!meta) {
+          hasForeignMutations = true;
+          continue;
+        }
+        const group = groups.get(meta.client) ?? [];
+        group.push({ meta, mutation });
+        groups.set(meta.client, group);
+      }
+
+      if (hasForeignMutations && !mutationFn) {
+        throw new Error(
+          '[Triplit Adapter] createTriplitTransaction received mutations for a collection not created by createTriplitCollection. Provide a `mutationFn` to persist them.'
+        );
+      }
+
+      for (const [client, group] of groups) {
+        // The mutation being written when the transaction failed.
+        let failed: (typeof group)[number] | undefined;
+        try {
+          if (group.some((entry) => entry.meta.checkPermissions)) {
+            const rules = await loadPermissionRules(client);
+            for (const entry of group) {
+              if (!entry.meta.checkPermissions) continue;
+              failed = entry;
+              const { meta, mutation } = entry;
+              assertTriplitWritePermitted(
+                client,
+                rules,
+                meta.collectionName,
+                mutation.type,
+                mutation,
+                group.map(({ mutation }) => mutation.key),
+                meta
+              );
+            }
+            failed = undefined;
+          }
+          await client.transact(async (tx) => {
+            for (const entry of group) {
+              failed = entry;
+              const { meta, mutation } = entry;
+              await applyTriplitMutation(
+                tx,
+                meta.collectionName,
+                mutation.type,
+                mutation,
+                meta
+              );
+            }
+            failed = undefined;
+          });
+        } catch (error) {
+          // Notify each error handler once, then rethrow for TanStack DB's rollback. A
+          // handler shared by several collections gets the first one's context, with the
+          // mutations of all of them.
+          const handlers = new Map<
+            NonNullable<TriplitCollectionMeta['onError']>,
+            Array<{ meta: TriplitCollectionMeta; mutation: PendingMutation<T> }>
+          >();
+          for (const entry of group) {
+            if (!entry.meta.onError) continue;
+            const entries = handlers.get(entry.meta.onError) ?? [];
+            entries.push(entry);
+            handlers.set(entry.meta.onError, entries);
+          }
+          for (const [onError, entries] of handlers) {
+            const [{ meta, mutation }] = entries;
+            onError(error as Error, {
+              phase: mutation.type,
+              collectionId: mutation.collection?.id,
+              collectionName: meta.collectionName,
+              keys: entries.map((entry) => entry.mutation.key),
+              mutations: entries.map((entry) => entry.mutation),
+              attempt: 1,
+            });
+          }
+          const [first] = group;
+          throw toTriplitMutationError(error, {
+            collectionName: (failed ?? first).meta.collectionName,
+            operation: (failed ?? first).mutation.type,
+            key: failed?.mutation.key,
+            keys: group.map((entry) => entry.mutation.key),
+          });
+        }
+      }
+
+      return mutationFn?.(params);
+    },
+  });
+}
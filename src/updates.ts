@@ -0,0 +1,190 @@
+import type { PendingMutation } from '@tanstack/db';
+import { encodeItem } from './codecs';
+import type { TriplitCodecs } from './codecs';
+import { isDeepEqual } from './utils';
+
+/**
+ * How the changes of an update are written to Triplit.
+ *
+ * - `shallow`: Assign every changed top-level attribute. A changed nested record replaces
+ *   the whole sub-object.
+ * - `deep-patch`: Walk the changes and assign only the leaf attributes that differ from
+ *   the previous value, so concurrent edits to different fields of the same nested
+ *   record are both kept.
+ * - `full`: Write every attribute of the updated row, overwriting concurrent edits to
+ *   any of them.
+ *
+ * With `shallow` and `deep-patch`, set attributes are always updated with Triplit's set
+ * operations, adding and removing only the items that changed.
+ */
+export type TriplitUpdateStrategy = 'shallow' | 'deep-patch' | 'full';
+
+/**
+ * What `applyTriplitMutation` passes to `tx.update`: either a plain object of changed
+ * attributes, or an updater callback when attributes need Triplit's own operations.
+ * @internal
+ */
+export type TriplitUpdate =
+  | Record<string, unknown>
+  | ((entity: Record<string, any>) => void);
+
+type UpdateOperation =
+  | { kind: 'assign'; path: string[]; value: unknown }
+  | { kind: 'unset'; path: string[] }
+  | {
+      kind: 'set';
+      path: string[];
+      value: Set<unknown>;
+      added: unknown[];
+      removed: unknown[];
+    };
+
+/**
+ * Translates the changes of a TanStack DB update into a Triplit update.
+ *
+ * Assigning a whole `Set` or record overwrites the attribute, dropping concurrent edits
+ * by other clients. So whenever the strategy calls for finer-grained writes, the update
+ * becomes an updater callback that applies only the difference to Triplit's draft of
+ * the entity; set differences go through its `add` and `delete` operations, which merge
+ * with concurrent edits.
+ * @internal
+ */
+export function buildTriplitUpdate<TItem extends object>(
+  mutation: PendingMutation<TItem>,
+  codecs: TriplitCodecs<any> | undefined,
+  strategy: TriplitUpdateStrategy = 'shallow'
+): TriplitUpdate {
+  if (strategy === 'full' && mutation.modified) {
+    const { id: _id, ...attributes } = encodeItem(
+      mutation.modified,
+      codecs
+    ) as Record<string, unknown>;
+    return attributes;
+  }
+
+  const changes = encodeItem(mutation.changes, codecs) as Record<string, unknown>;
+  const original = mutation.original
+    ? (encodeItem(mutation.original as TItem, codecs) as Record<string, unknown>)
+    : undefined;
+
+  const operations: UpdateOperation[] = [];
+  for (const [key, value] of Object.entries(changes)) {
+    if (strategy === 'deep-patch') {
+      diffValue(original?.[key], value, [key], operations);
+    } else {
+      diffTopLevel(original?.[key], value, key, operations);
+    }
+  }
+
+  const isPlainAssignment = operations.every(
+    (operation) => operation.kind === 'assign' && operation.path.length === 1
+  );
+  if (isPlainAssignment) return changes;
+
+  return (entity) => {
+    for (const operation of operations) {
+      applyOperation(entity, operation);
+    }
+  };
+}
+
+function diffTopLevel(
+  previous: unknown,
+  value: unknown,
+  key: string,
+  operations: UpdateOperation[]
+): void {
+  if (previous instanceof Set && value instanceof Set) {
+    operations.push(setOperation(previous, value, [key]));
+  } else {
+    operations.push({ kind: 'assign', path: [key], value });
+  }
+}
+
+function diffValue(
+  previous: unknown,
+  value: unknown,
+  path: string[],
+  operations: UpdateOperation[]
+): void {
+  if (previous instanceof Set && value instanceof Set) {
+    const operation = setOperation(previous, value, path);
+    if (operation.added.length > 0 || operation.removed.length > 0) {
+      operations.push(operation);
+    }
+    return;
+  }
+
+  if (isPlainObject(previous) && isPlainObject(value)) {
+    for (const [key, nextValue] of Object.entries(value)) {
+      if (nextValue === undefined && !(key in previous)) continue;
+      diffValue(previous[key], nextValue, [...path, key], operations);
+    }
+    for (const key of Object.keys(previous)) {
+      if (!(key in value)) {
+        operations.push({ kind: 'unset', path: [...path, key] });
+      }
+    }
+    return;
+  }
+
+  if (!isDeepEqual(previous, value)) {
+    operations.push({ kind: 'assign', path, value });
+  }
+}
+
+function setOperation(
+  previous: Set<unknown>,
+  value: Set<unknown>,
+  path: string[]
+): Extract<UpdateOperation, { kind: 'set' }> {
+  return {
+    kind: 'set',
+    path,
+    value,
+    added: [...value].filter((item) => !previous.has(item)),
+    removed: [...previous].filter((item) => !value.has(item)),
+  };
+}
+
+function applyOperation(
+  entity: Record<string, any>,
+  operation: UpdateOperation
+): void {
+  const parentPath = operation.path.slice(0, -1);
+  const key = operation.path[operation.path.length - 1];
+  let parent = entity;
+  for (const segment of parentPath) {
+    if (parent[segment] === null || parent[segment] === undefined) {
+      if (operation.kind === 'unset') return;
+      parent[segment] = {};
+    }
+    parent = parent[segment];
+  }
+
+  switch (operation.kind) {
+    case 'assign':
+      parent[key] = operation.value;
+      break;
+    case 'unset':
+      delete parent[key];
+      break;
+    case 'set': {
+      const current = parent[key];
+      if (current === null || current === undefined) {
+        // Nothing to merge with (e.g. the set was cleared remotely); write it as a whole.
+        parent[key] = new Set(operation.value);
+        break;
+      }
+      for (const item of operation.added) current.add(item);
+      for (const item of operation.removed) current.delete(item);
+      break;
+    }
+  }
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (typeof value !== 'object' || value === null) return false;
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+}
@@ -0,0 +1,110 @@
+/**
+ * Performs a structural equality check between two values as they come back from
+ * Triplit. Plain objects and arrays are compared recursively, and the value types
+ * Triplit can return (`Date`, `Set`, `Map`) are compared by content rather than identity.
+ * @internal
+ */
+export function isDeepEqual(a: unknown, b: unknown): boolean {
+  if (Object.is(a, b)) return true;
+  if (
+    typeof a !== 'object' ||
+    typeof b !== 'object' ||
+    a === null ||
+    b === null
+  ) {
+    return false;
+  }
+
+  if (a instanceof Date || b instanceof Date) {
+    return (
+      a instanceof Date && b instanceof Date && a.getTime() === b.getTime()
+    );
+  }
+
+  if (a instanceof Set || b instanceof Set) {
+    if (!(a instanceof Set && b instanceof Set) || a.size !== b.size) {
+      return false;
+    }
+    for (const value of a) {
+      if (!b.has(value)) return false;
+    }
+    return true;
+  }
+
+  if (a instanceof Map || b instanceof Map) {
+    if (!(a instanceof Map && b instanceof Map) || a.size !== b.size) {
+      return false;
+    }
+    for (const [key, value] of a) {
+      if (!b.has(key) || !isDeepEqual(value, b.get(key))) return false;
+    }
+    return true;
+  }
+
+  if (Array.isArray(a) || Array.isArray(b)) {
+    if (!(Array.isArray(a) && Array.isArray(b)) || a.length !== b.length) {
+      return false;
+    }
+    return a.every((value, index) => isDeepEqual(value, b[index]));
+  }
+
+  const aKeys = Object.keys(a as Record<string, unknown>);
+  const bKeys = Object.keys(b as Record<string, unknown>);
+  if (aKeys.length !== bKeys.length) return false;
+  for (const key of aKeys) {
+    if (
+      !Object.prototype.hasOwnProperty.call(b, key) ||
+      !isDeepEqual(
+        (a as Record<string, unknown>)[key],
+        (b as Record<string, unknown>)[key]
+      )
+    ) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * Reads a (possibly nested) attribute from an entity, using the dot-separated
+ * attribute paths Triplit uses in `order` and `where` clauses.
+ * @internal
+ */
+export function getValueAtPath(item: unknown, path: string): any {
+  let value: any = item;
+  for (const segment of path.split('.')) {
+    if (value === null || value === undefined) return undefined;
+    value = value[segment];
+  }
+  return value;
+}
+
+/**
+ * Normalizes a Triplit result set into an array of items. Accepts both arrays and
+ * `Map`s of results, and treats a missing result set as empty.
+ * @internal
+ */
+export function toItems<TItem>(results: unknown): TItem[] {
+  if (!results) return [];
+  return Array.from((results as { values(): Iterable<TItem> }).values());
+}
+
+/**
+ * Serializes a value to JSON with object keys sorted, so structurally equal values
+ * (e.g. query parameters built in different orders) produce the same string.
+ * @internal
+ */
+export function stableStringify(value: unknown): string {
+  return JSON.stringify(value, (_key, nested) => {
+    if (nested instanceof Set) return Array.from(nested).sort();
+    if (nested instanceof Map) return Object.fromEntries(nested);
+    if (typeof nested !== 'object' || nested === null || Array.isArray(nested)) {
+      return nested;
+    }
+    return Object.fromEntries(
+      Object.keys(nested)
+        .sort()
+        .map((key) => [key, nested[key]])
+    );
+  }) ?? 'undefined';
+}
@@ -0,0 +1,126 @@
+import { describe, it, expect, vi } from 'vitest';
+import { setCodec, dateCodec, recordCodec, decodeItem, encodeItem } from '../src/codecs';
+import { createTriplitCollectionOptions } from '../src/options';
+
+describe('built-in codecs', () => {
+  it('setCodec should encode arrays as sets and optionally decode sets to arrays', () => {
+    expect(setCodec().encode(['a', 'b'] as any)).toEqual(new Set(['a', 'b']));
+    expect(setCodec().decode(new Set(['a']))).toEqual(new Set(['a']));
+    expect(setCodec({ as: 'array' }).decode(new Set(['a', 'b']))).toEqual(['a', 'b']);
+    expect(setCodec({ as: 'array' }).encode(['a'])).toEqual(new Set(['a']));
+  });
+
+  it('dateCodec should decode to the chosen representation and always encode a Date', () => {
+    const date = new Date('2024-01-01T00:00:00.000Z');
+
+    expect(dateCodec().decode('2024-01-01T00:00:00.000Z' as any)).toEqual(date);
+    expect(dateCodec({ as: 'string' }).decode(date)).toBe('2024-01-01T00:00:00.000Z');
+    expect(dateCodec({ as: 'number' }).decode(date)).toBe(date.getTime());
+    expect(dateCodec({ as: 'number' }).encode(date.getTime())).toEqual(date);
+    expect(() => dateCodec().encode('not a date' as any)).toThrow(TypeError);
+  });
+
+  it('recordCodec should apply codecs to nested attributes', () => {
+    const codec = recordCodec<{ movedIn: string; city: string }>({
+      movedIn: dateCodec({ as: 'string' }),
+    });
+
+    expect(codec.encode({ movedIn: '2024-01-01T00:00:00.000Z', city: 'Oslo' })).toEqual({
+      movedIn: new Date('2024-01-01T00:00:00.000Z'),
+      city: 'Oslo',
+    });
+  });
+
+  it('should skip null and absent attributes and leave items without codecs untouched', () => {
+    const item = { id: '1', tags: null };
+
+    expect(decodeItem(item, { tags: setCodec(), dueDate: dateCodec() } as any)).toBe(item);
+    expect(encodeItem({ name: 'partial' }, { tags: setCodec() } as any)).toEqual({ name: 'partial' });
+    expect(decodeItem(item, undefined)).toBe(item);
+  });
+});
+
+describe('createTriplitCollectionOptions with codecs', () => {
+  interface Todo {
+    id: string;
+    tags: string[];
+    dueDate: string;
+  }
+
+  const createMockClient = () => {
+    const client: any = {
+      fetch: vi.fn(() => new Promise(() => {})),
+      subscribe: vi.fn(),
+      insert: vi.fn(),
+      update: vi.fn(),
+      delete: vi.fn(),
+      transact: vi.fn((callback) => callback(client)),
+      onConnectionStatusChange: vi.fn(() => () => {}),
+      onConnectionOptionsChange: vi.fn(() => () => {}),
+    };
+    return client;
+  };
+
+  const codecs = {
+    tags: setCodec<string>({ as: 'array' }),
+    dueDate: dateCodec({ as: 'string' }),
+  };
+
+  it('should decode remote rows before writing them into the collection', () => {
+    const client = createMockClient();
+    let subscriptionCallback!: (results: any) => void;
+    client.subscribe.mockImplementation((_query: any, callback: any) => {
+      subscriptionCallback = callback;
+      return () => {};
+    });
+    const config = createTriplitCollectionOptions<any, any, Todo>({
+      client,
+      query: { collectionName: 'todos' } as any,
+      getKey: (todo) => todo.id,
+      codecs,
+    });
+    const params = {
+      begin: vi.fn(),
+      write: vi.fn(),
+      commit: vi.fn(),
+      markReady: vi.fn(),
+      collection: { syncedData: new Map() },
+    };
+
+    config.sync.sync(params as any);
+    subscriptionCallback([
+      { id: '1', tags: new Set(['home']), dueDate: new Date('2024-01-01T00:00:00.000Z') },
+    ]);
+
+    expect(params.write).toHaveBeenCalledWith({
+      type: 'insert',
+      value: { id: '1', tags: ['home'], dueDate: '2024-01-01T00:00:00.000Z' },
+    });
+  });
+
+  it('should encode inserts and update changes before writing them to Triplit', async () => {
+    const client = createMockClient();
+    const config = createTriplitCollectionOptions<any, any, Todo>({
+      client,
+      query: { collectionName: 'todos' } as any,
+      getKey: (todo) => todo.id,
+      codecs,
+    });
+
+    await config.onInsert!({
+      transaction: {
+        mutations: [{ modified: { id: '1', tags: ['home'], dueDate: '2024-01-01T00:00:00.000Z' } }],
+      },
+    } as any);
+    await config.onUpdate!({
+      transaction: { mutations: [{ key: '1', changes: { tags: ['home', 'work'] } }] },
+    } as any);
+
+    expect(client.insert).toHaveBeenCalledWith('todos', {
+      id: '1',
+      tags: new Set(['home']),
+      dueDate: new Date('2024-01-01T00:00:00.000Z'),
+    });
+    expect(client.update).toHaveBeenCalledWith('todos', '1', { tags: new Set(['home', 'work']) });
+  });
+});
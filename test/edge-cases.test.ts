@@ -32,6 +32,10 @@ describe('Edge Cases and Error Scenarios', () => {
       insert: vi.fn(),
       update: vi.fn(),
       delete: vi.fn(),
+      // Run transactions against the mock itself so per-write assertions still apply.
+      transact: vi.fn((callback) => callback(mockClient)),
+      onConnectionStatusChange: vi.fn(() => () => {}),
+      onConnectionOptionsChange: vi.fn(() => () => {}),
     };
     
     mockQuery = {
@@ -63,7 +67,7 @@ describe('Edge Cases and Error Scenarios', () => {
         commit: vi.fn(),
         markReady: vi.fn(),
         collection: {
-          state: new Map(),
+          syncedData: new Map(),
         },
       };
 
@@ -99,7 +103,7 @@ describe('Edge Cases and Error Scenarios', () => {
         commit: vi.fn(),
         markReady: vi.fn(),
         collection: {
-          state: new Map(),
+          syncedData: new Map(),
         },
       };
 
@@ -150,7 +154,7 @@ describe('Edge Cases and Error Scenarios', () => {
         commit: vi.fn(),
         markReady: vi.fn(),
         collection: {
-          state: new Map(),
+          syncedData: new Map(),
         },
       };
 
@@ -158,7 +162,7 @@ describe('Edge Cases and Error Scenarios', () => {
 
       await new Promise(resolve => setTimeout(resolve, 0));
 
-      expect(getKeyWithDuplicates).toHaveBeenCalledTimes(6); // Called twice per item (local + remote sets)
+      expect(getKeyWithDuplicates).toHaveBeenCalledTimes(3); // Called once per remote item
     });
 
     it('should handle non-string keys correctly', async () => {
@@ -223,7 +227,7 @@ describe('Edge Cases and Error Scenarios', () => {
         commit: vi.fn(),
         markReady: vi.fn(),
         collection: {
-          state: new Map(),
+          syncedData: new Map(),
         },
       };
 
@@ -270,7 +274,7 @@ describe('Edge Cases and Error Scenarios', () => {
         commit: vi.fn(),
         markReady: vi.fn(),
         collection: {
-          state: new Map(),
+          syncedData: new Map(),
         },
       };
 
@@ -312,7 +316,7 @@ describe('Edge Cases and Error Scenarios', () => {
         commit: vi.fn(),
         markReady: vi.fn(),
         collection: {
-          state: new Map(),
+          syncedData: new Map(),
         },
       };
 
@@ -350,7 +354,7 @@ describe('Edge Cases and Error Scenarios', () => {
         commit: vi.fn(),
         markReady: vi.fn(),
         collection: {
-          state: new Map(),
+          syncedData: new Map(),
         },
       };
 
@@ -482,7 +486,7 @@ describe('Edge Cases and Error Scenarios', () => {
         commit: vi.fn(),
         markReady: vi.fn(),
         collection: {
-          state: new Map(),
+          syncedData: new Map(),
         },
       };
 
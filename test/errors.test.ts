@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import { TriplitError } from '@triplit/client';
+import {
+  TriplitMutationError,
+  TriplitPermissionError,
+  TriplitSchemaValidationError,
+  toTriplitMutationError,
+} from '../src/errors';
+
+const triplitError = (name: string, message: string) => {
+  const error = new TriplitError(message);
+  error.name = name;
+  return error;
+};
+
+const details = {
+  collectionName: 'todos',
+  operation: 'update' as const,
+  key: '1',
+  keys: ['1', '2'],
+};
+
+describe('toTriplitMutationError', () => {
+  it('should wrap permission errors with the failed write', () => {
+    const cause = triplitError('WritePermissionError', 'Not allowed');
+
+    const error = toTriplitMutationError(cause, details);
+
+    expect(error).toBeInstanceOf(TriplitPermissionError);
+    expect(error).toBeInstanceOf(TriplitMutationError);
+    expect(error).toMatchObject({
+      name: 'TriplitPermissionError',
+      collectionName: 'todos',
+      operation: 'update',
+      key: '1',
+      keys: ['1', '2'],
+      cause,
+    });
+    expect(error.message).toMatch(
+      /^\[Triplit Adapter\] Failed to update row "1" in "todos": .*Not allowed/
+    );
+  });
+
+  it('should wrap schema errors', () => {
+    const error = toTriplitMutationError(
+      triplitError('DBSerializationError', 'Bad value'),
+      details
+    );
+
+    expect(error).toBeInstanceOf(TriplitSchemaValidationError);
+    expect(error.name).toBe('TriplitSchemaValidationError');
+  });
+
+  it('should wrap other errors in the base class and keep wrapped errors as they are', () => {
+    const error = toTriplitMutationError(new Error('Disk full'), { ...details, key: undefined });
+
+    expect(error.constructor).toBe(TriplitMutationError);
+    expect(error.message).toBe('[Triplit Adapter] Failed to update rows in "todos": Disk full');
+    expect(toTriplitMutationError(error, details)).toBe(error);
+  });
+});
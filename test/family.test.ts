@@ -0,0 +1,144 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createCollection } from '@tanstack/db';
+import { createTriplitCollectionFamily } from '../src/family';
+
+// Mock TanStack DB so created collections (and their cleanup) can be inspected directly
+vi.mock('@tanstack/db', () => ({
+  createCollection: vi.fn((config) => ({
+    ...config,
+    cleanup: vi.fn(() => Promise.resolve()),
+  })),
+}));
+
+const createMockClient = () => ({
+  fetch: vi.fn(),
+  subscribe: vi.fn(),
+  transact: vi.fn(),
+  onConnectionStatusChange: vi.fn(() => () => {}),
+  onConnectionOptionsChange: vi.fn(() => () => {}),
+});
+
+describe('createTriplitCollectionFamily', () => {
+  let client: ReturnType<typeof createMockClient>;
+  let getQuery: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    client = createMockClient();
+    getQuery = vi.fn((params: { channelId: string; archived?: boolean }) => ({
+      collectionName: 'messages',
+      where: [['channelId', '=', params.channelId]],
+    }));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.clearAllMocks();
+  });
+
+  const createFamily = (overrides: Record<string, unknown> = {}) =>
+    createTriplitCollectionFamily(getQuery as any, {
+      client: client as any,
+      id: 'messages',
+      idleTimeout: 1000,
+      ...overrides,
+    }) as any;
+
+  it('should memoize collections by serialized params', () => {
+    const family = createFamily();
+
+    const a = family.get({ channelId: 'general', archived: false });
+    const b = family.get({ archived: false, channelId: 'general' });
+    const c = family.get({ channelId: 'random' });
+
+    expect(a).toBe(b);
+    expect(a).not.toBe(c);
+    expect(getQuery).toHaveBeenCalledTimes(2);
+    expect(a.id).toBe('messages:{"archived":false,"channelId":"general"}');
+  });
+
+  it('should tear a collection down only after the last reference is released and the idle timeout passes', () => {
+    const family = createFamily();
+    const first = family.acquire({ channelId: 'general' });
+    const second = family.acquire({ channelId: 'general' });
+
+    first.release();
+    vi.advanceTimersByTime(5000);
+    expect(first.collection.cleanup).not.toHaveBeenCalled();
+
+    second.release();
+    vi.advanceTimersByTime(999);
+    expect(first.collection.cleanup).not.toHaveBeenCalled();
+
+    vi.advanceTimersByTime(1);
+    expect(first.collection.cleanup).toHaveBeenCalledTimes(1);
+
+    // A new collection is created on next use.
+    expect(family.get({ channelId: 'general' })).not.toBe(first.collection);
+  });
+
+  it('should keep the collection when it is re-acquired within the idle timeout', () => {
+    const family = createFamily();
+    const first = family.acquire({ channelId: 'general' });
+    first.release();
+    first.release(); // Releasing twice is a no-op
+
+    vi.advanceTimersByTime(500);
+    const second = family.acquire({ channelId: 'general' });
+    vi.advanceTimersByTime(5000);
+
+    expect(second.collection).toBe(first.collection);
+    expect(first.collection.cleanup).not.toHaveBeenCalled();
+  });
+
+  it('should tear down collections that are only read with get', () => {
+    const family = createFamily();
+    const collection = family.get({ channelId: 'general' });
+
+    vi.advanceTimersByTime(1000);
+
+    expect(collection.cleanup).toHaveBeenCalledTimes(1);
+  });
+
+  it('should keep collections read with get while a live query subscribes to them', async () => {
+    const actual = await vi.importActual<typeof import('@tanstack/db')>('@tanstack/db');
+    vi.mocked(createCollection).mockImplementationOnce(actual.createCollection as any);
+    client.fetch.mockReturnValue(new Promise(() => {}));
+    client.subscribe.mockReturnValue(vi.fn());
+    const family = createFamily();
+    const collection = family.get({ channelId: 'general' });
+    const unsubscribe = collection.subscribeChanges(() => {});
+
+    vi.advanceTimersByTime(5000);
+    expect(collection.status).not.toBe('cleaned-up');
+    expect(family.get({ channelId: 'general' })).toBe(collection);
+
+    unsubscribe();
+    vi.advanceTimersByTime(1000);
+    await vi.runAllTimersAsync();
+    expect(collection.status).toBe('cleaned-up');
+  });
+
+  it('should support custom ids and params keys', () => {
+    const family = createFamily({
+      id: (params: { channelId: string }) => `channel-${params.channelId}`,
+      getParamsKey: (params: { channelId: string }) => params.channelId,
+    });
+
+    const collection = family.get({ channelId: 'general', archived: true });
+
+    expect(collection.id).toBe('channel-general');
+    expect(family.get({ channelId: 'general' })).toBe(collection);
+  });
+
+  it('should tear down every collection on dispose', async () => {
+    const family = createFamily();
+    const { collection: general } = family.acquire({ channelId: 'general' });
+    const { collection: random } = family.acquire({ channelId: 'random' });
+
+    await family.dispose();
+
+    expect(general.cleanup).toHaveBeenCalledTimes(1);
+    expect(random.cleanup).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,57 @@
+import { describe, it, expectTypeOf } from 'vitest';
+import { Schema as S } from '@triplit/client';
+import type { TriplitClient, SchemaQuery } from '@triplit/client';
+import { createTriplitCollection } from '../src/index';
+import type { TriplitCollectionFactoryOptions } from '../src/index';
+
+const schema = S.Collections({
+  todos: {
+    schema: S.Schema({
+      id: S.Id(),
+      text: S.String(),
+    }),
+  },
+});
+
+declare const client: TriplitClient<typeof schema>;
+
+describe('createTriplitCollection getKey option', () => {
+  it('should be optional when the query returns the id', () => {
+    const query = client.query('todos');
+
+    createTriplitCollection({ client, query });
+    createTriplitCollection({
+      client,
+      query,
+      getKey: (todo) => {
+        expectTypeOf(todo).toEqualTypeOf<{ id: string; text: string }>();
+        return todo.id;
+      },
+    });
+  });
+
+  it('should be required when the query selects the id away', () => {
+    const query = client.query('todos').Select(['text']);
+
+    // @ts-expect-error getKey is required when there is no id to default to
+    createTriplitCollection({ client, query });
+    createTriplitCollection({ client, query, getKey: (todo) => todo.text });
+  });
+
+  it('should follow an explicit item type', () => {
+    const withId: TriplitCollectionFactoryOptions<any, any, { id: string; name: string }> = {
+      client: {} as TriplitClient<any>,
+      query: {} as SchemaQuery<any>,
+    };
+    // @ts-expect-error getKey is required when there is no id to default to
+    const withoutId: TriplitCollectionFactoryOptions<any, any, { slug: string }> = {
+      client: {} as TriplitClient<any>,
+      query: {} as SchemaQuery<any>,
+    };
+
+    expectTypeOf(withId.getKey).toEqualTypeOf<
+      ((item: { id: string; name: string }) => string | number) | undefined
+    >();
+    expectTypeOf(withoutId.getKey).parameter(0).toEqualTypeOf<{ slug: string }>();
+  });
+});
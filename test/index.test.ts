@@ -1,5 +1,7 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createCollection } from '@tanstack/db';
 import { createTriplitCollection } from '../src/index';
+import { TriplitPermissionError } from '../src/errors';
 import type { TriplitCollectionFactoryOptions } from '../src/index';
 import type { TriplitClient, SchemaQuery, Models } from '@triplit/client';
 
@@ -22,6 +24,9 @@ const createMockTriplitClient = () => ({
   insert: vi.fn(),
   update: vi.fn(),
   delete: vi.fn(),
+  transact: vi.fn(),
+  onConnectionStatusChange: vi.fn(() => () => {}),
+  onConnectionOptionsChange: vi.fn(() => () => {}),
 });
 
 describe('createTriplitCollection', () => {
@@ -120,6 +125,18 @@ describe('createTriplitCollection', () => {
     );
   });
 
+  it('should default getKey to the entity id when it is omitted', async () => {
+    const { createCollection } = await import('@tanstack/db');
+
+    createTriplitCollection({
+      client: mockClient as TriplitClient<any>,
+      query: mockQuery,
+    });
+
+    const config = vi.mocked(createCollection).mock.calls[0][0] as any;
+    expect(config.getKey({ id: 'todo-1', text: 'Buy milk' })).toBe('todo-1');
+  });
+
   it('should handle TypeScript generics correctly', () => {
     interface TestModel {
       id: string;
@@ -140,6 +157,67 @@ describe('createTriplitCollection', () => {
     const collection = createTriplitCollection(typedOptions);
     expect(collection).toBeDefined();
   });
+
+  it('should reject denied writes before applying them with checkPermissions', async () => {
+    const actual = await vi.importActual<typeof import('@tanstack/db')>('@tanstack/db');
+    vi.mocked(createCollection).mockImplementationOnce(actual.createCollection as any);
+    let deliver: (results: any[]) => void = () => {};
+    const client: any = {
+      ...mockClient,
+      fetch: vi.fn(() => new Promise(() => {})),
+      subscribe: vi.fn((_query: any, callback: any) => {
+        deliver = callback;
+        return () => {};
+      }),
+      transact: vi.fn(),
+      getSchema: vi.fn().mockResolvedValue({
+        collections: {
+          test_collection: {
+            schema: { type: 'record', properties: {} },
+            permissions: {
+              member: {
+                insert: { filter: [['ownerId', '=', '$role.userId']] },
+                update: { filter: [['locked', '=', false]] },
+                delete: { filter: [['ownerId', '=', '$role.userId']] },
+              },
+            },
+          },
+        },
+        roles: { member: { match: { sub: '$userId' } } },
+      }),
+      vars: { $token: { sub: 'alice' } },
+      db: { onSchemaChange: vi.fn(() => () => {}) },
+    };
+    const collection: any = createTriplitCollection({
+      client,
+      query: mockQuery,
+      checkPermissions: true,
+      startSync: true,
+    });
+    deliver([{ id: '1', ownerId: 'bob', locked: true }]);
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    expect(() => collection.insert({ id: '2', ownerId: 'bob', locked: false })).toThrow(
+      TriplitPermissionError
+    );
+    expect(() =>
+      collection.update('1', (draft: any) => {
+        draft.locked = false;
+      })
+    ).toThrow(TriplitPermissionError);
+    // A new row reusing an existing key is rejected as a duplicate, not checked as an update.
+    expect(() => collection.insert({ id: '1', ownerId: 'alice' })).toThrow(/already exists/);
+    // Deletes are checked by the mutation handler, which rolls them back.
+    const deletion = collection.delete('1');
+    await expect(deletion.isPersisted.promise).rejects.toBeInstanceOf(TriplitPermissionError);
+    expect(collection.has('2')).toBe(false);
+    expect(collection.get('1')).toEqual({ id: '1', ownerId: 'bob', locked: true });
+    expect(client.transact).not.toHaveBeenCalled();
+
+    collection.insert({ id: '3', ownerId: 'alice', locked: false });
+    expect(collection.has('3')).toBe(true);
+    await collection.cleanup();
+  });
 });
 
 describe('TriplitCollectionFactoryOptions interface', () => {
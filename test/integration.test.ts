@@ -46,6 +46,10 @@ describe("Comprehensive Integration Tests", () => {
       insert: vi.fn(),
       update: vi.fn(),
       delete: vi.fn(),
+      // Run transactions against the mock itself so per-write assertions still apply.
+      transact: vi.fn((callback) => callback(mockClient)),
+      onConnectionStatusChange: vi.fn(() => () => {}),
+      onConnectionOptionsChange: vi.fn(() => () => {}),
     };
 
     mockQuery = {
@@ -123,7 +127,7 @@ describe("Comprehensive Integration Tests", () => {
         commit: vi.fn(),
         markReady: vi.fn(),
         collection: {
-          state: new Map(),
+          syncedData: new Map(),
         },
       };
 
@@ -164,7 +168,7 @@ describe("Comprehensive Integration Tests", () => {
       });
 
       // Simulate real-time update from another device
-      mockSyncParams.collection.state = new Map([
+      mockSyncParams.collection.syncedData = new Map([
         [
           "1",
           {
@@ -312,7 +316,7 @@ describe("Comprehensive Integration Tests", () => {
         commit: vi.fn(),
         markReady: vi.fn(),
         collection: {
-          state: new Map([
+          syncedData: new Map([
             [
               "shared-1",
               {
@@ -502,7 +506,7 @@ describe("Comprehensive Integration Tests", () => {
         commit: vi.fn(),
         markReady: vi.fn(),
         collection: {
-          state: new Map(),
+          syncedData: new Map(),
         },
       };
 
@@ -515,6 +519,7 @@ describe("Comprehensive Integration Tests", () => {
         expect.objectContaining({
           message: "Network unavailable",
         }),
+        expect.objectContaining({ phase: "fetch" }),
       );
       expect(mockSyncParams.markReady).toHaveBeenCalled();
       expect(mockSyncParams.write).toHaveBeenCalledWith({
@@ -555,7 +560,7 @@ describe("Comprehensive Integration Tests", () => {
         ],
       ]);
 
-      mockSyncParams.collection.state = new Map([
+      mockSyncParams.collection.syncedData = new Map([
         [
           "offline-1",
           {
@@ -652,7 +657,7 @@ describe("Comprehensive Integration Tests", () => {
         commit: vi.fn(),
         markReady: vi.fn(),
         collection: {
-          state: new Map(),
+          syncedData: new Map(),
         },
       };
 
@@ -770,7 +775,7 @@ describe("Comprehensive Integration Tests", () => {
         commit: vi.fn(),
         markReady: vi.fn(),
         collection: {
-          state: new Map(localData.map((item) => [getKey(item), item])),
+          syncedData: new Map(localData.map((item) => [getKey(item), item])),
         },
       };
 
@@ -855,6 +860,7 @@ describe("Comprehensive Integration Tests", () => {
         expect.objectContaining({
           message: "Update failed",
         }),
+        expect.objectContaining({ phase: "update" }),
       );
       expect(mockClient.update).toHaveBeenCalledWith("todos", "1", {
         completed: true,
@@ -892,7 +898,7 @@ describe("Comprehensive Integration Tests", () => {
         commit: vi.fn(),
         markReady: vi.fn(),
         collection: {
-          state: new Map(),
+          syncedData: new Map(),
         },
       };
 
@@ -934,7 +940,7 @@ describe("Comprehensive Integration Tests", () => {
           write: vi.fn(),
           commit: vi.fn(),
           markReady: vi.fn(),
-          collection: { state: new Map() },
+          collection: { syncedData: new Map() },
         });
 
         cleanupFunctions.push(cleanup);
@@ -973,7 +979,7 @@ describe("Comprehensive Integration Tests", () => {
           write: vi.fn(),
           commit: vi.fn(),
           markReady: vi.fn(),
-          collection: { state: new Map() },
+          collection: { syncedData: new Map() },
         });
 
         // Immediately clean up
@@ -1011,7 +1017,7 @@ describe("Comprehensive Integration Tests", () => {
         commit: vi.fn(),
         markReady: vi.fn(),
         collection: {
-          state: new Map(),
+          syncedData: new Map(),
         },
       };
 
@@ -1023,7 +1029,10 @@ describe("Comprehensive Integration Tests", () => {
       const networkError = new Error("Connection lost");
       subscriptionErrorCallback!(networkError);
 
-      expect(onError).toHaveBeenCalledWith(networkError);
+      expect(onError).toHaveBeenCalledWith(
+        networkError,
+        expect.objectContaining({ phase: "subscribe" }),
+      );
 
       // Simulate reconnection with new data
       const reconnectionData = new Map([
@@ -1130,6 +1139,7 @@ describe("Comprehensive Integration Tests", () => {
         expect.objectContaining({
           message: "Insert failed",
         }),
+        expect.objectContaining({ phase: "insert" }),
       );
     });
 
@@ -1173,7 +1183,7 @@ describe("Comprehensive Integration Tests", () => {
         commit: vi.fn(),
         markReady: vi.fn(),
         collection: {
-          state: new Map(),
+          syncedData: new Map(),
         },
       };
 
@@ -1303,7 +1313,7 @@ describe("Comprehensive Integration Tests", () => {
         commit: vi.fn(),
         markReady: vi.fn(),
         collection: {
-          state: new Map(),
+          syncedData: new Map(),
         },
       };
 
@@ -1364,7 +1374,7 @@ describe("Comprehensive Integration Tests", () => {
         commit: vi.fn(),
         markReady: vi.fn(),
         collection: {
-          state: new Map(),
+          syncedData: new Map(),
         },
       };
 
@@ -1488,7 +1498,7 @@ describe("Comprehensive Integration Tests", () => {
         commit: vi.fn(),
         markReady: vi.fn(),
         collection: {
-          state: new Map([
+          syncedData: new Map([
             [
               "1",
               {
@@ -1600,7 +1610,7 @@ describe("Comprehensive Integration Tests", () => {
         commit: vi.fn(),
         markReady: vi.fn(),
         collection: {
-          state: new Map(),
+          syncedData: new Map(),
         },
       };
 
@@ -1762,7 +1772,7 @@ describe("Comprehensive Integration Tests", () => {
         commit: vi.fn(),
         markReady: vi.fn(),
         collection: {
-          state: new Map(),
+          syncedData: new Map(),
         },
       };
 
@@ -1791,11 +1801,11 @@ describe("Comprehensive Integration Tests", () => {
       });
 
       // 3. Real-time update reflects the addition
-      mockSyncParams.collection.state = appStates.initial;
+      mockSyncParams.collection.syncedData = appStates.initial;
       subscriptionCallback!(appStates.afterUserAction);
 
       // 4. Collaborator adds their todo
-      mockSyncParams.collection.state = appStates.afterUserAction;
+      mockSyncParams.collection.syncedData = appStates.afterUserAction;
       subscriptionCallback!(appStates.afterCollaboration);
 
       // 5. Complete and delete todos
@@ -1814,7 +1824,7 @@ describe("Comprehensive Integration Tests", () => {
       });
 
       // 6. Final state sync
-      mockSyncParams.collection.state = appStates.afterCollaboration;
+      mockSyncParams.collection.syncedData = appStates.afterCollaboration;
       subscriptionCallback!(appStates.afterCleanup);
 
       // Verify all operations were called
@@ -1910,7 +1920,7 @@ describe("Comprehensive Integration Tests", () => {
         commit: vi.fn(),
         markReady: vi.fn(),
         collection: {
-          state: new Map(),
+          syncedData: new Map(),
         },
       };
 
@@ -1923,12 +1933,14 @@ describe("Comprehensive Integration Tests", () => {
         expect.objectContaining({
           message: "Connection failed",
         }),
+        expect.objectContaining({ phase: "fetch" }),
       );
 
       expect(onError).toHaveBeenCalledWith(
         expect.objectContaining({
           message: "Subscription failed",
         }),
+        expect.objectContaining({ phase: "subscribe" }),
       );
 
       expect(mockSyncParams.markReady).toHaveBeenCalled();
@@ -1,6 +1,9 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createCollection } from '@tanstack/db';
 import { createTriplitCollectionOptions } from '../src/options';
 import type { TriplitCollectionOptions } from '../src/options';
+import { TriplitPermissionError } from '../src/errors';
+import { TriplitError } from '@triplit/client';
 import type { TriplitClient, SchemaQuery, Models, FetchResult } from '@triplit/client';
 
 // Mock data types
@@ -14,6 +17,35 @@ type TestModels = {
   todos: TestItem;
 };
 
+/**
+ * Mocks how Triplit reports the server's outcome of writes: one success callback per
+ * entity, which a second registration replaces, and `onFailureToSyncWrites` listeners
+ * that receive the rejected changes.
+ */
+const mockSyncOutcomes = (client: any) => {
+  const successCallbacks = new Map<string, () => void>();
+  const failureCallbacks = new Set<(error: unknown, changes: unknown) => void>();
+  client.onEntitySyncSuccess = vi.fn((collection: string, id: string, callback: () => void) => {
+    successCallbacks.set(`${collection}/${id}`, callback);
+    return () => successCallbacks.delete(`${collection}/${id}`);
+  });
+  client.onFailureToSyncWrites = vi.fn((callback: (error: unknown, changes: unknown) => void) => {
+    failureCallbacks.add(callback);
+    return () => failureCallbacks.delete(callback);
+  });
+  client.clearPendingChangesForEntity = vi.fn().mockResolvedValue(undefined);
+  return {
+    confirm: (id: string) => successCallbacks.get(`todos/${id}`)?.(),
+    reject: (error: unknown, { sets = [], deletes = [] }: { sets?: string[]; deletes?: string[] }) => {
+      const changes = {
+        todos: { sets: new Map(sets.map((id) => [id, {}])), deletes: new Set(deletes) },
+      };
+      for (const callback of [...failureCallbacks]) callback(error, changes);
+    },
+    isListening: () => successCallbacks.size > 0 || failureCallbacks.size > 0,
+  };
+};
+
 describe('createTriplitCollectionOptions', () => {
   let mockClient: any;
   let mockQuery: SchemaQuery<TestModels>;
@@ -28,6 +60,10 @@ describe('createTriplitCollectionOptions', () => {
       insert: vi.fn(),
       update: vi.fn(),
       delete: vi.fn(),
+      // Run transactions against the mock itself so per-write assertions still apply.
+      transact: vi.fn((callback) => callback(mockClient)),
+      onConnectionStatusChange: vi.fn(() => () => {}),
+      onConnectionOptionsChange: vi.fn(() => () => {}),
     };
     
     mockQuery = {
@@ -50,6 +86,31 @@ describe('createTriplitCollectionOptions', () => {
     vi.clearAllMocks();
   });
 
+  /**
+   * Starts syncing the adapter options (by default, `options` with the given overrides)
+   * with mocked sync params. With `trackState`, synced writes are applied to `state`,
+   * which the sync reads back as the collection's `syncedData`.
+   */
+  const startSync = (
+    { trackState = false, ...overrides }: Partial<typeof options> & { trackState?: boolean } = {},
+    config = createTriplitCollectionOptions({ ...options, ...overrides })
+  ) => {
+    const state = new Map<string, TestItem>();
+    const params = {
+      begin: vi.fn(),
+      write: vi.fn(({ type, value }: { type: string; value: TestItem }) => {
+        if (!trackState) return;
+        if (type === 'delete') state.delete(value.id);
+        else state.set(value.id, value);
+      }),
+      commit: vi.fn(),
+      markReady: vi.fn(),
+      collection: { syncedData: state },
+    };
+    const cleanup = config.sync.sync(params as any) as () => void;
+    return { config, state, params, cleanup };
+  };
+
   describe('return value structure', () => {
     it('should return correct config structure', () => {
       const config = createTriplitCollectionOptions(options);
@@ -62,8 +123,140 @@ describe('createTriplitCollectionOptions', () => {
         onInsert: expect.any(Function),
         onUpdate: expect.any(Function),
         onDelete: expect.any(Function),
+        utils: {
+          getSyncStatus: expect.any(Function),
+          subscribeSyncStatus: expect.any(Function),
+          getConfirmationStatus: expect.any(Function),
+          subscribeConfirmationStatus: expect.any(Function),
+          loadMore: expect.any(Function),
+          hasMore: expect.any(Function),
+          setQuery: expect.any(Function),
+          pause: expect.any(Function),
+          resume: expect.any(Function),
+          canInsert: expect.any(Function),
+          canUpdate: expect.any(Function),
+          canDelete: expect.any(Function),
+        },
+      });
+    });
+  });
+
+  describe('sync status', () => {
+    const createParams = () => ({
+      begin: vi.fn(),
+      write: vi.fn(),
+      commit: vi.fn(),
+      markReady: vi.fn(),
+      collection: {
+        syncedData: new Map(),
+      },
+    });
+
+    it('should start in the fetching state with no data source', () => {
+      const config = createTriplitCollectionOptions(options);
+
+      expect(config.utils.getSyncStatus()).toMatchObject({
+        status: 'fetching',
+        source: 'none',
+        lastError: undefined,
+        lastSyncedAt: undefined,
+      });
+    });
+
+    it('should report a cached fetch result and then live subscription data', async () => {
+      mockClient.fetch.mockResolvedValue(new Map());
+      let subscriptionCallback: (results: any) => void;
+      mockClient.subscribe.mockImplementation((query: any, callback: any) => {
+        subscriptionCallback = callback;
+        return () => {};
+      });
+
+      const config = createTriplitCollectionOptions(options);
+      config.sync.sync(createParams());
+
+      await new Promise(resolve => setTimeout(resolve, 0));
+
+      expect(config.utils.getSyncStatus().source).toBe('fetch');
+      expect(config.utils.getSyncStatus().status).toBe('fetching');
+      expect(config.utils.getSyncStatus().lastSyncedAt).toEqual(expect.any(Number));
+
+      subscriptionCallback!(new Map());
+
+      expect(config.utils.getSyncStatus()).toMatchObject({
+        status: 'live',
+        source: 'subscription',
+      });
+    });
+
+    it('should derive connecting and offline from the client connection status', () => {
+      let connectionCallback: (status: string) => void;
+      mockClient.subscribe.mockReturnValue(() => {});
+      mockClient.fetch.mockReturnValue(new Promise(() => {}));
+      mockClient.onConnectionStatusChange.mockImplementation((callback: any, runImmediately: boolean) => {
+        connectionCallback = callback;
+        if (runImmediately) callback('CONNECTING');
+        return () => {};
+      });
+
+      const config = createTriplitCollectionOptions(options);
+      config.sync.sync(createParams());
+
+      expect(mockClient.onConnectionStatusChange).toHaveBeenCalledWith(expect.any(Function), true);
+      expect(config.utils.getSyncStatus().status).toBe('connecting');
+
+      connectionCallback!('CLOSED');
+
+      expect(config.utils.getSyncStatus()).toMatchObject({
+        status: 'offline',
+        connectionStatus: 'CLOSED',
+      });
+    });
+
+    it('should report errors and recover once data arrives', () => {
+      let subscriptionCallback: (results: any) => void;
+      let subscriptionErrorCallback: (error: Error) => void;
+      mockClient.fetch.mockReturnValue(new Promise(() => {}));
+      mockClient.subscribe.mockImplementation((query: any, callback: any, errorCallback: any) => {
+        subscriptionCallback = callback;
+        subscriptionErrorCallback = errorCallback;
+        return () => {};
+      });
+
+      const config = createTriplitCollectionOptions(options);
+      const listener = vi.fn();
+      config.utils.subscribeSyncStatus(listener);
+      config.sync.sync(createParams());
+
+      const error = new Error('Subscription failed');
+      subscriptionErrorCallback!(error);
+
+      expect(config.utils.getSyncStatus()).toMatchObject({
+        status: 'error',
+        lastError: error,
+        lastErrorAt: expect.any(Number),
+      });
+      expect(listener).toHaveBeenLastCalledWith(config.utils.getSyncStatus());
+
+      subscriptionCallback!(new Map());
+
+      expect(config.utils.getSyncStatus()).toMatchObject({
+        status: 'live',
+        lastError: error,
       });
     });
+
+    it('should stop listening to the client connection on cleanup', () => {
+      const unsubscribeConnection = vi.fn();
+      mockClient.fetch.mockReturnValue(new Promise(() => {}));
+      mockClient.subscribe.mockReturnValue(() => {});
+      mockClient.onConnectionStatusChange.mockReturnValue(unsubscribeConnection);
+
+      const config = createTriplitCollectionOptions(options);
+      const cleanup = config.sync.sync(createParams());
+      cleanup();
+
+      expect(unsubscribeConnection).toHaveBeenCalled();
+    });
   });
 
   describe('sync function', () => {
@@ -83,7 +276,7 @@ describe('createTriplitCollectionOptions', () => {
         commit: vi.fn(),
         markReady: vi.fn(),
         collection: {
-          state: new Map(),
+          syncedData: new Map(),
         },
       };
 
@@ -96,7 +289,8 @@ describe('createTriplitCollectionOptions', () => {
       expect(mockClient.subscribe).toHaveBeenCalledWith(
         mockQuery,
         expect.any(Function),
-        expect.any(Function)
+        expect.any(Function),
+        expect.objectContaining({ onRemoteFulfilled: expect.any(Function) })
       );
       expect(mockParams.markReady).toHaveBeenCalled();
       expect(cleanup).toBeInstanceOf(Function);
@@ -114,7 +308,7 @@ describe('createTriplitCollectionOptions', () => {
         commit: vi.fn(),
         markReady: vi.fn(),
         collection: {
-          state: new Map(),
+          syncedData: new Map(),
         },
       };
 
@@ -122,7 +316,13 @@ describe('createTriplitCollectionOptions', () => {
 
       await new Promise(resolve => setTimeout(resolve, 0));
 
-      expect(onError).toHaveBeenCalledWith(fetchError);
+      expect(onError).toHaveBeenCalledWith(
+
+        fetchError,
+
+        expect.objectContaining({ phase: 'fetch' })
+
+      );
       expect(mockClient.subscribe).toHaveBeenCalled();
     });
 
@@ -147,7 +347,7 @@ describe('createTriplitCollectionOptions', () => {
         commit: vi.fn(),
         markReady: vi.fn(),
         collection: {
-          state: new Map(localItems.map(item => [getKey(item), item])),
+          syncedData: new Map(localItems.map(item => [getKey(item), item])),
         },
       };
 
@@ -169,6 +369,83 @@ describe('createTriplitCollectionOptions', () => {
       });
     });
 
+    it('should only write rows whose content changed', async () => {
+      const localItems = [
+        { id: '1', name: 'Unchanged', completed: false },
+        { id: '2', name: 'Before', completed: false },
+      ];
+
+      const remoteResults = new Map([
+        ['1', { id: '1', name: 'Unchanged', completed: false }],
+        ['2', { id: '2', name: 'After', completed: false }],
+      ]);
+
+      mockClient.fetch.mockResolvedValue(remoteResults);
+      mockClient.subscribe.mockReturnValue(() => {});
+
+      const config = createTriplitCollectionOptions(options);
+      const mockParams = {
+        begin: vi.fn(),
+        write: vi.fn(),
+        commit: vi.fn(),
+        markReady: vi.fn(),
+        collection: {
+          syncedData: new Map(localItems.map(item => [getKey(item), item])),
+        },
+      };
+
+      config.sync.sync(mockParams);
+
+      await new Promise(resolve => setTimeout(resolve, 0));
+
+      expect(mockParams.write).toHaveBeenCalledTimes(1);
+      expect(mockParams.write).toHaveBeenCalledWith({
+        type: 'update',
+        value: { id: '2', name: 'After', completed: false },
+      });
+      expect(mockParams.commit).toHaveBeenCalledTimes(1);
+    });
+
+    it('should compare Date and Set values by content', async () => {
+      const local = {
+        id: '1',
+        name: 'Item',
+        completed: false,
+        dueDate: new Date('2025-01-01T00:00:00Z'),
+        tags: new Set(['a', 'b']),
+      };
+
+      const remoteResults = new Map([
+        ['1', {
+          id: '1',
+          name: 'Item',
+          completed: false,
+          dueDate: new Date('2025-01-01T00:00:00Z'),
+          tags: new Set(['b', 'a']),
+        }],
+      ]);
+
+      mockClient.fetch.mockResolvedValue(remoteResults);
+      mockClient.subscribe.mockReturnValue(() => {});
+
+      const config = createTriplitCollectionOptions(options);
+      const mockParams = {
+        begin: vi.fn(),
+        write: vi.fn(),
+        commit: vi.fn(),
+        markReady: vi.fn(),
+        collection: {
+          syncedData: new Map([['1', local]]),
+        },
+      };
+
+      config.sync.sync(mockParams as any);
+
+      await new Promise(resolve => setTimeout(resolve, 0));
+
+      expect(mockParams.write).not.toHaveBeenCalled();
+    });
+
     it('should not delete items with pending mutations', async () => {
       const localItems = [
         { id: '1', name: 'Item', completed: false },
@@ -195,7 +472,7 @@ describe('createTriplitCollectionOptions', () => {
         commit: vi.fn(),
         markReady: vi.fn(),
         collection: {
-          state: new Map(localItems.map(item => [getKey(item), item])),
+          syncedData: new Map(localItems.map(item => [getKey(item), item])),
         },
       };
 
@@ -226,7 +503,7 @@ describe('createTriplitCollectionOptions', () => {
         commit: vi.fn(),
         markReady: vi.fn(),
         collection: {
-          state: new Map(),
+          syncedData: new Map(),
         },
       };
 
@@ -235,7 +512,13 @@ describe('createTriplitCollectionOptions', () => {
       const subscriptionError = new Error('Subscription failed');
       subscriptionErrorCallback!(subscriptionError);
 
-      expect(onError).toHaveBeenCalledWith(subscriptionError);
+      expect(onError).toHaveBeenCalledWith(
+
+        subscriptionError,
+
+        expect.objectContaining({ phase: 'subscribe' })
+
+      );
     });
 
     it('should cleanup subscription on return function call', () => {
@@ -250,7 +533,7 @@ describe('createTriplitCollectionOptions', () => {
         commit: vi.fn(),
         markReady: vi.fn(),
         collection: {
-          state: new Map(),
+          syncedData: new Map(),
         },
       };
 
@@ -261,6 +544,102 @@ describe('createTriplitCollectionOptions', () => {
     });
   });
 
+  describe('limited queries', () => {
+    let subscriptionCallback: (results: any) => void;
+    const limitedQuery = {
+      collectionName: 'todos',
+      where: [['completed', '=', false]],
+      limit: 2,
+    } as any;
+    const local = [
+      { id: '1', name: 'Deleted', completed: false },
+      { id: '2', name: 'Pushed out', completed: false },
+      { id: '3', name: 'Kept', completed: false },
+    ];
+
+    beforeEach(() => {
+      mockClient.fetch.mockImplementation((query: any, fetchOptions?: any) =>
+        // The local membership check only finds the row that still matches the query
+        Promise.resolve(fetchOptions?.policy === 'local-only' ? [local[1]] : new Promise(() => {}))
+      );
+      mockClient.subscribe.mockImplementation((query: any, callback: any) => {
+        subscriptionCallback = callback;
+        return () => {};
+      });
+    });
+
+    const sync = (overrides: Partial<typeof options> = {}) => {
+      const config = createTriplitCollectionOptions({ ...options, query: limitedQuery, ...overrides });
+      const params = {
+        begin: vi.fn(),
+        write: vi.fn(),
+        commit: vi.fn(),
+        markReady: vi.fn(),
+        collection: {
+          syncedData: new Map(local.map(item => [item.id, item])),
+        },
+      };
+      config.sync.sync(params as any);
+      return params;
+    };
+
+    it('should delete rows that left the query but retain evicted rows', async () => {
+      const onEvict = vi.fn();
+      const params = sync({ evictionPolicy: 'retain', onEvict });
+
+      subscriptionCallback([local[2], { id: '4', name: 'New', completed: false }]);
+      await new Promise(resolve => setTimeout(resolve, 0));
+
+      expect(mockClient.fetch).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: [['completed', '=', false], ['id', 'in', ['1', '2']]],
+          limit: undefined,
+        }),
+        { policy: 'local-only' }
+      );
+      expect(params.write).toHaveBeenCalledWith({ type: 'delete', value: local[0] });
+      expect(params.write).not.toHaveBeenCalledWith({ type: 'delete', value: local[1] });
+      expect(onEvict).toHaveBeenCalledWith([local[1]]);
+    });
+
+    it('should report each eviction only once', async () => {
+      const onEvict = vi.fn();
+      sync({ evictionPolicy: 'retain', onEvict });
+
+      subscriptionCallback([local[2]]);
+      await new Promise(resolve => setTimeout(resolve, 0));
+      subscriptionCallback([local[2]]);
+      await new Promise(resolve => setTimeout(resolve, 0));
+
+      expect(onEvict).toHaveBeenCalledTimes(1);
+    });
+
+    it('should refresh retained rows from the local database', async () => {
+      const updated = { ...local[1], name: 'Edited elsewhere' };
+      mockClient.fetch.mockImplementation((query: any, fetchOptions?: any) =>
+        Promise.resolve(fetchOptions?.policy === 'local-only' ? [updated] : new Promise(() => {}))
+      );
+      const params = sync({ evictionPolicy: 'retain' });
+
+      subscriptionCallback([local[2]]);
+      await new Promise(resolve => setTimeout(resolve, 0));
+
+      expect(params.write).toHaveBeenCalledWith({ type: 'update', value: updated });
+    });
+
+    it('should delete evicted rows by default', async () => {
+      const onEvict = vi.fn();
+      const params = sync({ onEvict });
+
+      subscriptionCallback([local[2]]);
+      await new Promise(resolve => setTimeout(resolve, 0));
+
+      expect(params.write).toHaveBeenCalledWith({ type: 'delete', value: local[0] });
+      expect(params.write).toHaveBeenCalledWith({ type: 'delete', value: local[1] });
+      expect(onEvict).toHaveBeenCalledWith([local[1]]);
+    });
+  });
+
   describe('onInsert mutation handler', () => {
     it('should insert items via client', async () => {
       mockClient.insert.mockResolvedValue(undefined);
@@ -298,7 +677,227 @@ describe('createTriplitCollectionOptions', () => {
       };
 
       await expect(config.onInsert({ transaction } as any)).rejects.toThrow('Insert failed');
-      expect(onError).toHaveBeenCalledWith(insertError);
+      expect(onError).toHaveBeenCalledWith(
+        insertError,
+        expect.objectContaining({ phase: 'insert', collectionName: 'todos' })
+      );
+    });
+  });
+
+  describe('transactional commits', () => {
+    it('should commit all mutations of a transaction in a single client.transact call', async () => {
+      mockClient.insert.mockResolvedValue(undefined);
+
+      const config = createTriplitCollectionOptions(options);
+      const transaction = {
+        mutations: [
+          { modified: { id: '1', name: 'First', completed: false } },
+          { modified: { id: '2', name: 'Second', completed: false } },
+          { modified: { id: '3', name: 'Third', completed: false } },
+        ],
+      };
+
+      await config.onInsert({ transaction } as any);
+
+      expect(mockClient.transact).toHaveBeenCalledTimes(1);
+      expect(mockClient.insert).toHaveBeenCalledTimes(3);
+    });
+
+    it('should abort the Triplit transaction and rethrow when one mutation fails', async () => {
+      const updateError = new Error('Update failed');
+      const tx = {
+        update: vi.fn()
+          .mockResolvedValueOnce(undefined)
+          .mockRejectedValueOnce(updateError),
+      };
+      mockClient.transact.mockImplementation(async (callback: any) => callback(tx));
+
+      const config = createTriplitCollectionOptions(options);
+      const transaction = {
+        mutations: [
+          { key: '1', changes: { name: 'One' } },
+          { key: '2', changes: { name: 'Two' } },
+          { key: '3', changes: { name: 'Three' } },
+        ],
+      };
+
+      await expect(config.onUpdate({ transaction } as any)).rejects.toThrow('Update failed');
+      // The third mutation is never attempted once the transaction has failed.
+      expect(tx.update).toHaveBeenCalledTimes(2);
+      expect(mockClient.update).not.toHaveBeenCalled();
+      expect(onError).toHaveBeenCalledWith(
+        updateError,
+        expect.objectContaining({ phase: 'update', keys: ['1', '2', '3'] })
+      );
+    });
+  });
+
+  describe('server confirmation', () => {
+    let sync: ReturnType<typeof mockSyncOutcomes>;
+
+    beforeEach(() => {
+      sync = mockSyncOutcomes(mockClient);
+      mockClient.insert.mockResolvedValue(undefined);
+      mockClient.update.mockResolvedValue(undefined);
+    });
+
+    it('should resolve as soon as the local write succeeds by default', async () => {
+      const config = createTriplitCollectionOptions(options);
+
+      await config.onInsert({
+        transaction: {
+          mutations: [{ key: '1', modified: { id: '1', name: 'New', completed: false } }],
+        },
+      } as any);
+
+      expect(mockClient.onEntitySyncSuccess).not.toHaveBeenCalled();
+      expect(config.utils.getConfirmationStatus('1')).toBe('confirmed');
+    });
+
+    it('should wait for the server to accept every entity', async () => {
+      const config = createTriplitCollectionOptions({ ...options, awaitServerConfirmation: true });
+      const listener = vi.fn();
+      config.utils.subscribeConfirmationStatus(listener);
+
+      let resolved = false;
+      const pending = config.onInsert({
+        transaction: {
+          mutations: [
+            { key: '1', modified: { id: '1', name: 'One', completed: false } },
+            { key: '2', modified: { id: '2', name: 'Two', completed: false } },
+          ],
+        },
+      } as any).then(() => {
+        resolved = true;
+      });
+
+      await new Promise(resolve => setTimeout(resolve, 0));
+
+      expect(resolved).toBe(false);
+      expect(config.utils.getConfirmationStatus('1')).toBe('pending');
+      expect(config.utils.getConfirmationStatus('2')).toBe('pending');
+
+      sync.confirm('1');
+      await new Promise(resolve => setTimeout(resolve, 0));
+
+      expect(resolved).toBe(false);
+      expect(config.utils.getConfirmationStatus('1')).toBe('confirmed');
+
+      sync.confirm('2');
+      await pending;
+
+      expect(resolved).toBe(true);
+      expect(config.utils.getConfirmationStatus('2')).toBe('confirmed');
+      expect(listener).toHaveBeenCalledWith('2', 'confirmed', undefined);
+      // Listeners are removed once the transaction is settled.
+      expect(sync.isListening()).toBe(false);
+    });
+
+    it('should reject and mark the row rejected when the server refuses the write', async () => {
+      const config = createTriplitCollectionOptions({ ...options, awaitServerConfirmation: true });
+      const listener = vi.fn();
+      config.utils.subscribeConfirmationStatus(listener);
+
+      const pending = config.onUpdate({
+        transaction: {
+          mutations: [{ key: '1', changes: { name: 'Denied' } }],
+        },
+      } as any);
+
+      await new Promise(resolve => setTimeout(resolve, 0));
+
+      const serverError = new Error('Write denied');
+      sync.reject(serverError, { sets: ['1'] });
+
+      await expect(pending).rejects.toThrow('Write denied');
+      expect(config.utils.getConfirmationStatus('1')).toBe('rejected');
+      expect(listener).toHaveBeenCalledWith('1', 'rejected', serverError);
+      expect(onError).toHaveBeenCalledWith(
+        serverError,
+        expect.objectContaining({ phase: 'update', keys: ['1'] })
+      );
+    });
+
+    it('should confirm overlapping writes to the same row', async () => {
+      const config = createTriplitCollectionOptions({ ...options, awaitServerConfirmation: true });
+      const update = (name: string) =>
+        config.onUpdate({
+          transaction: { mutations: [{ key: '1', changes: { name } }] },
+        } as any);
+
+      const first = update('Draft');
+      const second = update('Final');
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      sync.confirm('1');
+
+      await expect(Promise.all([first, second])).resolves.toBeDefined();
+      expect(config.utils.getConfirmationStatus('1')).toBe('confirmed');
+      expect(sync.isListening()).toBe(false);
+    });
+
+    it('should keep waiting for a row when an overlapping write is cancelled', async () => {
+      mockClient.update
+        .mockResolvedValueOnce(undefined)
+        .mockRejectedValueOnce(new Error('Local failure'));
+      const config = createTriplitCollectionOptions({ ...options, awaitServerConfirmation: true });
+      const update = (name: string) =>
+        config.onUpdate({
+          transaction: { mutations: [{ key: '1', changes: { name } }] },
+        } as any);
+
+      const first = update('Draft');
+      await expect(update('Final')).rejects.toThrow('Local failure');
+      sync.confirm('1');
+
+      await first;
+      expect(sync.isListening()).toBe(false);
+    });
+
+    it('should drop the pending changes of a rejected transaction from the outbox', async () => {
+      const config = createTriplitCollectionOptions({ ...options, awaitServerConfirmation: true });
+
+      const pending = config.onUpdate({
+        transaction: {
+          mutations: [
+            { key: '1', changes: { name: 'Denied' } },
+            { key: '2', changes: { name: 'Accepted' } },
+          ],
+        },
+      } as any);
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      sync.reject(new Error('Write denied'), { sets: ['1'] });
+
+      await expect(pending).rejects.toThrow('Write denied');
+      expect(mockClient.clearPendingChangesForEntity).toHaveBeenCalledTimes(2);
+      expect(mockClient.clearPendingChangesForEntity).toHaveBeenCalledWith('todos', '1');
+      expect(mockClient.clearPendingChangesForEntity).toHaveBeenCalledWith('todos', '2');
+    });
+
+    it('should reject deletes the server refuses', async () => {
+      const config = createTriplitCollectionOptions({ ...options, awaitServerConfirmation: true });
+
+      const pending = config.onDelete({
+        transaction: { mutations: [{ key: '1', original: { id: '1' } }] },
+      } as any);
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      sync.reject(new Error('Delete denied'), { deletes: ['1'] });
+
+      await expect(pending).rejects.toThrow('Delete denied');
+      expect(config.utils.getConfirmationStatus('1')).toBe('rejected');
+    });
+
+    it('should stop waiting when the local commit fails', async () => {
+      mockClient.update.mockRejectedValue(new Error('Local failure'));
+      const config = createTriplitCollectionOptions({ ...options, awaitServerConfirmation: true });
+
+      await expect(config.onUpdate({
+        transaction: {
+          mutations: [{ key: '1', changes: { name: 'Nope' } }],
+        },
+      } as any)).rejects.toThrow('Local failure');
+
+      expect(config.utils.getConfirmationStatus('1')).toBe('confirmed');
+      expect(sync.isListening()).toBe(false);
     });
   });
 
@@ -333,7 +932,10 @@ describe('createTriplitCollectionOptions', () => {
       };
 
       await expect(config.onUpdate({ transaction } as any)).rejects.toThrow('Update failed');
-      expect(onError).toHaveBeenCalledWith(updateError);
+      expect(onError).toHaveBeenCalledWith(
+        updateError,
+        expect.objectContaining({ phase: 'update' })
+      );
     });
 
     it('should convert keys to strings', async () => {
@@ -383,7 +985,10 @@ describe('createTriplitCollectionOptions', () => {
       };
 
       await expect(config.onDelete({ transaction } as any)).rejects.toThrow('Delete failed');
-      expect(onError).toHaveBeenCalledWith(deleteError);
+      expect(onError).toHaveBeenCalledWith(
+        deleteError,
+        expect.objectContaining({ phase: 'delete' })
+      );
     });
 
     it('should convert keys to strings', async () => {
@@ -402,6 +1007,970 @@ describe('createTriplitCollectionOptions', () => {
     });
   });
 
+  describe('setQuery', () => {
+    let subscriptions: Array<{ query: any; callback: (results: any) => void; unsubscribe: ReturnType<typeof vi.fn> }>;
+
+    beforeEach(() => {
+      subscriptions = [];
+      mockClient.fetch.mockReturnValue(new Promise(() => {}));
+      mockClient.subscribe.mockImplementation((query: any, callback: any) => {
+        const unsubscribe = vi.fn();
+        subscriptions.push({ query, callback, unsubscribe });
+        return unsubscribe;
+      });
+    });
+
+    it('should re-subscribe in place and reconcile the new result in one batch', async () => {
+      const { config, state, params } = startSync({ trackState: true });
+      subscriptions[0].callback([
+        { id: '1', name: 'Open', completed: false },
+        { id: '2', name: 'Also open', completed: false },
+      ]);
+      params.begin.mockClear();
+      params.commit.mockClear();
+
+      const doneQuery = { collectionName: 'todos', where: [['completed', '=', true]] } as any;
+      const switched = config.utils.setQuery(doneQuery);
+
+      expect(subscriptions[0].unsubscribe).toHaveBeenCalled();
+      expect(subscriptions[1].query).toBe(doneQuery);
+      expect(mockClient.fetch).toHaveBeenLastCalledWith(doneQuery);
+      // The old rows stay until the new query delivers.
+      expect(state.size).toBe(2);
+
+      subscriptions[1].callback([{ id: '3', name: 'Done', completed: true }]);
+      await switched;
+
+      expect(params.begin).toHaveBeenCalledTimes(1);
+      expect(params.commit).toHaveBeenCalledTimes(1);
+      expect([...state.keys()]).toEqual(['3']);
+      expect(params.markReady).toHaveBeenCalledTimes(1);
+    });
+
+    it('should ignore late results from the previous query', () => {
+      const { config, state } = startSync({ trackState: true });
+      config.utils.setQuery({ collectionName: 'todos', where: [['completed', '=', true]] } as any);
+
+      subscriptions[0].callback([{ id: '1', name: 'Stale', completed: false }]);
+
+      expect(state.size).toBe(0);
+    });
+
+    it('should use the new query for the next sync when not syncing', async () => {
+      const config = createTriplitCollectionOptions(options);
+      const nextQuery = { collectionName: 'todos', limit: 10 } as any;
+
+      await config.utils.setQuery(nextQuery);
+      startSync({}, config);
+
+      expect(subscriptions[0].query).toBe(nextQuery);
+    });
+
+    it('should stop the current query on cleanup', () => {
+      const { config, cleanup } = startSync();
+      config.utils.setQuery({ collectionName: 'todos' } as any);
+
+      cleanup();
+
+      expect(subscriptions[1].unsubscribe).toHaveBeenCalled();
+    });
+
+    it('should reject queries on another collection', () => {
+      const config = createTriplitCollectionOptions(options);
+
+      expect(() => config.utils.setQuery({ collectionName: 'projects' } as any)).toThrow(
+        'setQuery expects a query on "todos"'
+      );
+    });
+  });
+
+  describe('session changes', () => {
+    let subscriptions: Array<{ callback: (results: any) => void; unsubscribe: ReturnType<typeof vi.fn> }>;
+    let changeSession: (changes: Record<string, unknown>) => void;
+    let unsubscribeSession: ReturnType<typeof vi.fn>;
+
+    beforeEach(() => {
+      subscriptions = [];
+      unsubscribeSession = vi.fn();
+      mockClient.fetch.mockReturnValue(new Promise(() => {}));
+      mockClient.subscribe.mockImplementation((_query: any, callback: any) => {
+        const unsubscribe = vi.fn();
+        subscriptions.push({ callback, unsubscribe });
+        return unsubscribe;
+      });
+      mockClient.onConnectionOptionsChange.mockImplementation((callback: any) => {
+        changeSession = callback;
+        return unsubscribeSession;
+      });
+    });
+
+    const startSyncWithRows = (overrides: Partial<typeof options> = {}) => {
+      const { state, params, cleanup } = startSync({ ...overrides, trackState: true });
+      subscriptions[0].callback([
+        { id: '1', name: 'Mine', completed: false },
+        { id: '2', name: 'Also mine', completed: false },
+      ]);
+      params.begin.mockClear();
+      params.commit.mockClear();
+      return { state, params, cleanup };
+    };
+
+    it('should keep the rows until the new session delivers by default', () => {
+      const { state, params } = startSyncWithRows();
+
+      changeSession({ token: 'next-token' });
+
+      expect(subscriptions[0].unsubscribe).toHaveBeenCalled();
+      expect(state.size).toBe(2);
+
+      subscriptions[1].callback([{ id: '3', name: 'Theirs', completed: false }]);
+
+      expect([...state.keys()]).toEqual(['3']);
+      expect(params.begin).toHaveBeenCalledTimes(1);
+      expect(params.commit).toHaveBeenCalledTimes(1);
+    });
+
+    it('should remove every row in one batch with the clear policy', () => {
+      const { state, params } = startSyncWithRows({ sessionChangePolicy: 'clear' });
+
+      changeSession({ token: undefined });
+
+      expect(state.size).toBe(0);
+      expect(params.begin).toHaveBeenCalledTimes(1);
+      expect(params.commit).toHaveBeenCalledTimes(1);
+      expect(subscriptions).toHaveLength(2);
+    });
+
+    it('should ignore changes that are not about the session', () => {
+      const { state } = startSyncWithRows({ sessionChangePolicy: 'clear' });
+
+      changeSession({ serverUrl: 'https://example.com' });
+
+      expect(state.size).toBe(2);
+      expect(subscriptions).toHaveLength(1);
+    });
+
+    it('should ignore token refreshes of the same session', () => {
+      const { state } = startSyncWithRows({ sessionChangePolicy: 'clear' });
+
+      changeSession({ token: 'refreshed-token', tokenRefresh: true });
+
+      expect(state.size).toBe(2);
+      expect(subscriptions[0].unsubscribe).not.toHaveBeenCalled();
+      expect(subscriptions).toHaveLength(1);
+    });
+
+    it('should stop listening on cleanup', () => {
+      const { cleanup } = startSyncWithRows();
+
+      cleanup();
+
+      expect(unsubscribeSession).toHaveBeenCalled();
+    });
+  });
+
+  describe('pause and resume', () => {
+    let subscriptions: Array<{ query: any; callback: (results: any) => void; unsubscribe: ReturnType<typeof vi.fn> }>;
+
+    beforeEach(() => {
+      subscriptions = [];
+      mockClient.fetch.mockReturnValue(new Promise(() => {}));
+      mockClient.subscribe.mockImplementation((query: any, callback: any) => {
+        const unsubscribe = vi.fn();
+        subscriptions.push({ query, callback, unsubscribe });
+        return unsubscribe;
+      });
+    });
+
+    it('should unsubscribe while paused and keep the rows', () => {
+      const { config, state } = startSync({ trackState: true });
+      subscriptions[0].callback([{ id: '1', name: 'Task', completed: false }]);
+
+      config.utils.pause();
+
+      expect(subscriptions[0].unsubscribe).toHaveBeenCalled();
+      expect(state.size).toBe(1);
+      expect(config.utils.getSyncStatus().status).toBe('paused');
+    });
+
+    it('should fetch and reconcile the current query on resume before subscribing', async () => {
+      const { config, state, params } = startSync({ trackState: true });
+      subscriptions[0].callback([{ id: '1', name: 'Task', completed: false }]);
+      config.utils.pause();
+
+      const nextQuery = { collectionName: 'todos', where: [['completed', '=', true]] } as any;
+      await config.utils.setQuery(nextQuery);
+      expect(subscriptions).toHaveLength(1);
+
+      let resolveFetch!: (results: TestItem[]) => void;
+      mockClient.fetch.mockReturnValue(new Promise((resolve) => (resolveFetch = resolve)));
+      params.begin.mockClear();
+      const resumed = config.utils.resume();
+
+      expect(mockClient.fetch).toHaveBeenLastCalledWith(nextQuery);
+      expect(subscriptions).toHaveLength(1);
+
+      resolveFetch([{ id: '2', name: 'Done', completed: true }]);
+      await resumed;
+
+      expect([...state.keys()]).toEqual(['2']);
+      expect(params.begin).toHaveBeenCalledTimes(1);
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      expect(subscriptions[1].query).toBe(nextQuery);
+    });
+
+    it('should not start the query of a sync that starts while paused', async () => {
+      const config = createTriplitCollectionOptions(options);
+      config.utils.pause();
+      startSync({}, config);
+
+      expect(mockClient.subscribe).not.toHaveBeenCalled();
+      expect(mockClient.fetch).not.toHaveBeenCalled();
+
+      void config.utils.resume();
+
+      expect(mockClient.fetch).toHaveBeenCalledTimes(1);
+    });
+
+    describe('when hidden', () => {
+      let visibilityState: 'visible' | 'hidden';
+      let listeners: Set<() => void>;
+
+      beforeEach(() => {
+        visibilityState = 'visible';
+        listeners = new Set();
+        vi.stubGlobal('document', {
+          get visibilityState() {
+            return visibilityState;
+          },
+          addEventListener: vi.fn((_type: string, listener: () => void) => listeners.add(listener)),
+          removeEventListener: vi.fn((_type: string, listener: () => void) => listeners.delete(listener)),
+        });
+      });
+
+      afterEach(() => {
+        vi.unstubAllGlobals();
+      });
+
+      const setVisibility = (next: 'visible' | 'hidden') => {
+        visibilityState = next;
+        listeners.forEach((listener) => listener());
+      };
+
+      it('should pause while the page is hidden and catch up when it is shown', async () => {
+        const { config } = startSync({ pauseWhenHidden: true });
+
+        setVisibility('hidden');
+
+        expect(subscriptions[0].unsubscribe).toHaveBeenCalled();
+        expect(config.utils.getSyncStatus().status).toBe('paused');
+
+        mockClient.fetch.mockResolvedValue([]);
+        setVisibility('visible');
+        await new Promise((resolve) => setTimeout(resolve, 0));
+
+        expect(mockClient.fetch).toHaveBeenCalledTimes(2);
+        expect(subscriptions).toHaveLength(2);
+      });
+
+      it('should not resume a collection that was paused by hand', () => {
+        const { config } = startSync({ pauseWhenHidden: true });
+
+        setVisibility('hidden');
+        config.utils.pause();
+        setVisibility('visible');
+
+        expect(config.utils.getSyncStatus().status).toBe('paused');
+        expect(mockClient.fetch).toHaveBeenCalledTimes(1);
+      });
+
+      it('should not start syncing in a hidden page and stop listening on cleanup', () => {
+        visibilityState = 'hidden';
+        const { cleanup } = startSync({ pauseWhenHidden: true });
+
+        expect(mockClient.subscribe).not.toHaveBeenCalled();
+
+        cleanup();
+
+        expect(listeners.size).toBe(0);
+      });
+    });
+  });
+
+  describe('load strategy', () => {
+    beforeEach(() => {
+      mockClient.subscribe.mockReturnValue(vi.fn());
+    });
+
+    it('should pass the strategy to the initial fetch as its policy', () => {
+      mockClient.fetch.mockResolvedValue([]);
+
+      startSync({ loadStrategy: 'local-and-remote' });
+
+      expect(mockClient.fetch).toHaveBeenCalledWith(mockQuery, { policy: 'local-and-remote' });
+      expect(mockClient.subscribe).toHaveBeenCalledTimes(1);
+    });
+
+    it('should skip the initial fetch with subscribe-only', () => {
+      startSync({ loadStrategy: 'subscribe-only' });
+
+      expect(mockClient.fetch).not.toHaveBeenCalled();
+      expect(mockClient.subscribe).toHaveBeenCalledTimes(1);
+    });
+
+    it('should keep local-only collections off the server', () => {
+      mockClient.fetch.mockResolvedValue([]);
+
+      startSync({ loadStrategy: 'local-only' });
+
+      expect(mockClient.fetch).toHaveBeenCalledWith(mockQuery, { policy: 'local-only' });
+      expect(mockClient.subscribe).toHaveBeenCalledWith(
+        mockQuery,
+        expect.any(Function),
+        expect.any(Function),
+        expect.objectContaining({ localOnly: true })
+      );
+    });
+
+    it('should subscribe only after a remote-first fetch settles', async () => {
+      let resolveFetch!: (results: TestItem[]) => void;
+      mockClient.fetch.mockReturnValue(new Promise((resolve) => { resolveFetch = resolve; }));
+
+      const { params } = startSync({ loadStrategy: 'remote-first' });
+      expect(mockClient.subscribe).not.toHaveBeenCalled();
+
+      resolveFetch([{ id: '1', name: 'Server item', completed: false }]);
+      await new Promise((resolve) => setTimeout(resolve, 0));
+
+      expect(params.markReady).toHaveBeenCalled();
+      expect(params.write).toHaveBeenCalledWith({
+        type: 'insert',
+        value: { id: '1', name: 'Server item', completed: false },
+      });
+      expect(mockClient.subscribe).toHaveBeenCalledTimes(1);
+    });
+
+    it('should still subscribe when a remote-only fetch fails', async () => {
+      mockClient.fetch.mockRejectedValue(new Error('Offline'));
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+
+      startSync({ loadStrategy: 'remote-only' });
+      await new Promise((resolve) => setTimeout(resolve, 0));
+
+      expect(onError).toHaveBeenCalledWith(
+
+        new Error('Offline'),
+
+        expect.objectContaining({ phase: 'fetch', attempt: 1 })
+
+      );
+      expect(mockClient.subscribe).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('remote fulfillment', () => {
+    let subscriptionCallback: (results: any) => void;
+    let remoteFulfilled: () => void;
+
+    beforeEach(() => {
+      mockClient.fetch.mockReturnValue(new Promise(() => {}));
+      mockClient.subscribe.mockImplementation((query: any, callback: any, onError: any, subscriptionOptions: any) => {
+        subscriptionCallback = callback;
+        remoteFulfilled = subscriptionOptions.onRemoteFulfilled;
+        return () => {};
+      });
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should flag local data until the server fulfills the query', () => {
+      const { config, params } = startSync();
+
+      subscriptionCallback([]);
+      expect(params.markReady).toHaveBeenCalledTimes(1);
+      expect(config.utils.getSyncStatus().isLocalOnly).toBe(true);
+
+      remoteFulfilled();
+      expect(config.utils.getSyncStatus().isLocalOnly).toBe(false);
+    });
+
+    it('should defer markReady until remote fulfillment with awaitRemoteFulfilled', () => {
+      const { config, params } = startSync({ awaitRemoteFulfilled: true });
+
+      subscriptionCallback([]);
+      expect(params.markReady).not.toHaveBeenCalled();
+
+      subscriptionCallback([{ id: '1', name: 'Server item', completed: false }]);
+      remoteFulfilled();
+
+      expect(params.markReady).toHaveBeenCalledTimes(1);
+      expect(params.write).toHaveBeenCalledWith({
+        type: 'insert',
+        value: { id: '1', name: 'Server item', completed: false },
+      });
+      expect(config.utils.getSyncStatus().isLocalOnly).toBe(false);
+    });
+
+    it('should fall back to local data after remoteFulfilledTimeout', () => {
+      vi.useFakeTimers();
+      const { config, params } = startSync({
+        awaitRemoteFulfilled: true,
+        remoteFulfilledTimeout: 3000,
+      });
+      subscriptionCallback([]);
+
+      vi.advanceTimersByTime(2999);
+      expect(params.markReady).not.toHaveBeenCalled();
+
+      vi.advanceTimersByTime(1);
+      expect(params.markReady).toHaveBeenCalledTimes(1);
+      expect(config.utils.getSyncStatus().isLocalOnly).toBe(true);
+
+      remoteFulfilled();
+      expect(params.markReady).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not wait for the server with loadStrategy local-only', () => {
+      const { params } = startSync({ awaitRemoteFulfilled: true, loadStrategy: 'local-only' });
+
+      subscriptionCallback([]);
+
+      expect(params.markReady).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('retry', () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should re-subscribe with backoff after subscription errors', async () => {
+      const errorCallbacks: Array<(error: Error) => void> = [];
+      const unsubscribes: Array<ReturnType<typeof vi.fn>> = [];
+      mockClient.fetch.mockReturnValue(new Promise(() => {}));
+      mockClient.subscribe.mockImplementation((query: any, callback: any, onSubscriptionError: any) => {
+        errorCallbacks.push(onSubscriptionError);
+        const unsubscribe = vi.fn();
+        unsubscribes.push(unsubscribe);
+        return unsubscribe;
+      });
+      startSync({ retry: { initialDelay: 100, jitter: false } });
+
+      errorCallbacks[0](new TriplitError('Connection lost'));
+      expect(onError).toHaveBeenCalledWith(
+        new TriplitError('Connection lost'),
+        expect.objectContaining({ phase: 'subscribe', attempt: 1 })
+      );
+
+      vi.advanceTimersByTime(100);
+      expect(unsubscribes[0]).toHaveBeenCalled();
+      expect(mockClient.subscribe).toHaveBeenCalledTimes(2);
+
+      errorCallbacks[1](new TriplitError('Connection lost'));
+      vi.advanceTimersByTime(100);
+      expect(mockClient.subscribe).toHaveBeenCalledTimes(2);
+      vi.advanceTimersByTime(100);
+      expect(mockClient.subscribe).toHaveBeenCalledTimes(3);
+      expect(onError).toHaveBeenCalledTimes(2);
+    });
+
+    it('should retry a failed initial fetch until the subscription delivers', async () => {
+      let subscriptionCallback: (results: any) => void = () => {};
+      mockClient.fetch.mockRejectedValue(new TriplitError('Offline'));
+      mockClient.subscribe.mockImplementation((query: any, callback: any) => {
+        subscriptionCallback = callback;
+        return () => {};
+      });
+      startSync({ retry: { initialDelay: 100, jitter: false } });
+
+      await vi.advanceTimersByTimeAsync(0);
+      expect(mockClient.fetch).toHaveBeenCalledTimes(1);
+      await vi.advanceTimersByTimeAsync(100);
+      expect(mockClient.fetch).toHaveBeenCalledTimes(2);
+
+      subscriptionCallback([]);
+      await vi.advanceTimersByTimeAsync(1000);
+      expect(mockClient.fetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should stop retrying once the policy gives up or the sync is cleaned up', async () => {
+      const errorCallbacks: Array<(error: Error) => void> = [];
+      mockClient.fetch.mockReturnValue(new Promise(() => {}));
+      mockClient.subscribe.mockImplementation((query: any, callback: any, onSubscriptionError: any) => {
+        errorCallbacks.push(onSubscriptionError);
+        return () => {};
+      });
+      const { cleanup } = startSync({ retry: { maxAttempts: 1, initialDelay: 100, jitter: false } });
+
+      errorCallbacks[0](new TriplitError('Connection lost'));
+      vi.advanceTimersByTime(100);
+      errorCallbacks[1](new TriplitError('Connection lost'));
+      vi.advanceTimersByTime(1000);
+      expect(mockClient.subscribe).toHaveBeenCalledTimes(2);
+
+      const second = startSync({ retry: { initialDelay: 100 } });
+      errorCallbacks[2](new TriplitError('Connection lost'));
+      second.cleanup();
+      vi.advanceTimersByTime(1000);
+      expect(mockClient.subscribe).toHaveBeenCalledTimes(3);
+      cleanup();
+    });
+
+    it('should not retry without a retry policy', () => {
+      const errorCallbacks: Array<(error: Error) => void> = [];
+      mockClient.fetch.mockReturnValue(new Promise(() => {}));
+      mockClient.subscribe.mockImplementation((query: any, callback: any, onSubscriptionError: any) => {
+        errorCallbacks.push(onSubscriptionError);
+        return () => {};
+      });
+      startSync();
+
+      errorCallbacks[0](new TriplitError('Connection lost'));
+      vi.advanceTimersByTime(60_000);
+
+      expect(mockClient.subscribe).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('mutation retry', () => {
+    const insert = (config: ReturnType<typeof createTriplitCollectionOptions>, id: string) =>
+      config.onInsert!({
+        transaction: { mutations: [{ key: id, modified: { id, name: id, completed: false } }] },
+      } as any);
+
+    beforeEach(() => {
+      vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should retry transient failures and keep the handler pending meanwhile', async () => {
+      mockClient.insert
+        .mockRejectedValueOnce(new TriplitError('Network down'))
+        .mockResolvedValueOnce(undefined);
+      const config = createTriplitCollectionOptions({
+        ...options,
+        mutationRetry: { initialDelay: 100, jitter: false },
+      });
+
+      let isSettled = false;
+      const pending = insert(config, '1').then(() => { isSettled = true; });
+      await vi.advanceTimersByTimeAsync(50);
+
+      expect(isSettled).toBe(false);
+      expect(onError).toHaveBeenCalledWith(
+        new TriplitError('Network down'),
+        expect.objectContaining({ phase: 'insert', keys: ['1'], attempt: 1 })
+      );
+
+      await vi.advanceTimersByTimeAsync(50);
+      await pending;
+
+      expect(mockClient.insert).toHaveBeenCalledTimes(2);
+    });
+
+    it('should reject right away on permanent failures', async () => {
+      const permissionError = Object.assign(new Error('Denied'), {
+        __isTriplitError: true,
+        status: 401,
+      });
+      mockClient.insert.mockRejectedValue(permissionError);
+      const config = createTriplitCollectionOptions({ ...options, mutationRetry: true });
+
+      await expect(insert(config, '1')).rejects.toMatchObject({ cause: permissionError });
+      expect(mockClient.insert).toHaveBeenCalledTimes(1);
+      expect(onError).toHaveBeenCalledTimes(1);
+    });
+
+    it('should commit later writes only after earlier retries', async () => {
+      mockClient.insert
+        .mockRejectedValueOnce(new TriplitError('Network down'))
+        .mockResolvedValue(undefined);
+      const config = createTriplitCollectionOptions({
+        ...options,
+        mutationRetry: { initialDelay: 100, jitter: false },
+      });
+
+      const first = insert(config, '1');
+      const second = insert(config, '2');
+      await vi.advanceTimersByTimeAsync(100);
+      await Promise.all([first, second]);
+
+      expect(mockClient.insert.mock.calls.map((call: any[]) => call[1].id)).toEqual(['1', '1', '2']);
+    });
+
+    it('should send writes the server rejected again and wait for the new outcome', async () => {
+      const sync = mockSyncOutcomes(mockClient);
+      mockClient.syncWrites = vi.fn().mockResolvedValue({ didSync: true });
+      mockClient.insert.mockResolvedValue(undefined);
+      const config = createTriplitCollectionOptions({
+        ...options,
+        awaitServerConfirmation: true,
+        mutationRetry: { initialDelay: 100, jitter: false },
+      });
+
+      let isSettled = false;
+      const pending = insert(config, '1').then(() => { isSettled = true; });
+      await vi.advanceTimersByTimeAsync(0);
+      const serverError = new TriplitError('Server unavailable');
+      sync.reject(serverError, { sets: ['1'] });
+      await vi.advanceTimersByTimeAsync(0);
+
+      expect(config.utils.getConfirmationStatus('1')).toBe('pending');
+      expect(onError).toHaveBeenCalledWith(
+        serverError,
+        expect.objectContaining({ phase: 'insert', attempt: 1 })
+      );
+      expect(mockClient.syncWrites).not.toHaveBeenCalled();
+
+      await vi.advanceTimersByTimeAsync(100);
+      expect(mockClient.syncWrites).toHaveBeenCalledTimes(1);
+      expect(isSettled).toBe(false);
+
+      sync.confirm('1');
+      await pending;
+
+      expect(mockClient.insert).toHaveBeenCalledTimes(1);
+      expect(config.utils.getConfirmationStatus('1')).toBe('confirmed');
+      expect(mockClient.clearPendingChangesForEntity).not.toHaveBeenCalled();
+    });
+
+    it('should roll back when the server rejects the write permanently', async () => {
+      const sync = mockSyncOutcomes(mockClient);
+      mockClient.syncWrites = vi.fn();
+      mockClient.insert.mockResolvedValue(undefined);
+      const config = createTriplitCollectionOptions({
+        ...options,
+        awaitServerConfirmation: true,
+        mutationRetry: true,
+      });
+
+      const pending = insert(config, '1');
+      await vi.advanceTimersByTimeAsync(0);
+      const permissionError = Object.assign(new TriplitError('Denied'), { status: 401 });
+      sync.reject(permissionError, { sets: ['1'] });
+
+      await expect(pending).rejects.toMatchObject({ cause: permissionError });
+      expect(mockClient.syncWrites).not.toHaveBeenCalled();
+      expect(mockClient.clearPendingChangesForEntity).toHaveBeenCalledWith('todos', '1');
+      expect(config.utils.getConfirmationStatus('1')).toBe('rejected');
+    });
+
+    it('should retry server errors Triplit reports as JSON', async () => {
+      const sync = mockSyncOutcomes(mockClient);
+      mockClient.syncWrites = vi.fn().mockResolvedValue({ didSync: true });
+      mockClient.insert.mockResolvedValue(undefined);
+      const config = createTriplitCollectionOptions({
+        ...options,
+        awaitServerConfirmation: true,
+        mutationRetry: { initialDelay: 100, jitter: false },
+      });
+
+      const pending = insert(config, '1');
+      await vi.advanceTimersByTimeAsync(0);
+      sync.reject(
+        { name: 'TriplitError', message: 'Triplit Error', baseMessage: 'Triplit Error', status: 500 },
+        { sets: ['1'] }
+      );
+      await vi.advanceTimersByTimeAsync(100);
+
+      expect(mockClient.syncWrites).toHaveBeenCalledTimes(1);
+      expect(config.utils.getConfirmationStatus('1')).toBe('pending');
+
+      sync.confirm('1');
+      await pending;
+      expect(config.utils.getConfirmationStatus('1')).toBe('confirmed');
+    });
+  });
+
+  describe('error context and logger', () => {
+    it('should route diagnostics through the logger and describe subscription errors', () => {
+      const logger = { error: vi.fn() };
+      const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+      let onSubscriptionError: (error: Error) => void = () => {};
+      mockClient.fetch.mockReturnValue(new Promise(() => {}));
+      mockClient.subscribe.mockImplementation((query: any, callback: any, errorCallback: any) => {
+        onSubscriptionError = errorCallback;
+        return () => {};
+      });
+      const config = createTriplitCollectionOptions({ ...options, logger });
+      config.sync.sync({
+        begin: vi.fn(),
+        write: vi.fn(),
+        commit: vi.fn(),
+        markReady: vi.fn(),
+        collection: { id: 'todo-list', state: new Map() },
+      } as any);
+
+      const error = new Error('Connection lost');
+      onSubscriptionError(error);
+
+      expect(logger.error).toHaveBeenCalledWith('[Triplit Adapter] Subscription error:', error);
+      expect(consoleError).not.toHaveBeenCalled();
+      expect(onError).toHaveBeenCalledWith(error, {
+        phase: 'subscribe',
+        collectionId: 'todo-list',
+        collectionName: 'todos',
+        attempt: 1,
+      });
+    });
+
+    it('should describe failed writes with their keys, mutations and attempt', async () => {
+      vi.useFakeTimers();
+      const error = new TriplitError('Network down');
+      mockClient.delete.mockRejectedValue(error);
+      const config = createTriplitCollectionOptions({
+        ...options,
+        mutationRetry: { maxAttempts: 1, initialDelay: 10, jitter: false },
+      });
+      const mutations = [{ key: '1', original: { id: '1' } }, { key: '2', original: { id: '2' } }];
+
+      const pending = expect(
+        config.onDelete({ transaction: { mutations }, collection: { id: 'todo-list' } } as any)
+      ).rejects.toMatchObject({ cause: error });
+      await vi.advanceTimersByTimeAsync(10);
+      await pending;
+      vi.useRealTimers();
+
+      const context = {
+        phase: 'delete',
+        collectionId: 'todo-list',
+        collectionName: 'todos',
+        keys: ['1', '2'],
+        mutations,
+      };
+      expect(onError).toHaveBeenNthCalledWith(1, error, { ...context, attempt: 1 });
+      expect(onError).toHaveBeenNthCalledWith(2, error, { ...context, attempt: 2 });
+    });
+  });
+
+  describe('typed mutation errors', () => {
+    it('should reject with the error class and the row of the failed write', async () => {
+      const permissionError = Object.assign(new Error('Not allowed'), {
+        name: 'WritePermissionError',
+      });
+      mockClient.update
+        .mockResolvedValueOnce(undefined)
+        .mockRejectedValueOnce(permissionError);
+      const config = createTriplitCollectionOptions(options);
+
+      const rejection = await config.onUpdate({
+        transaction: {
+          mutations: [
+            { key: '1', changes: { name: 'One' } },
+            { key: '2', changes: { name: 'Two' } },
+          ],
+        },
+      } as any).catch((error) => error);
+
+      expect(rejection).toBeInstanceOf(TriplitPermissionError);
+      expect(rejection).toMatchObject({
+        collectionName: 'todos',
+        operation: 'update',
+        key: '2',
+        keys: ['1', '2'],
+        cause: permissionError,
+      });
+    });
+
+    it('should report the row the server rejected', async () => {
+      const sync = mockSyncOutcomes(mockClient);
+      const config = createTriplitCollectionOptions({ ...options, awaitServerConfirmation: true });
+
+      const pending = config.onDelete({
+        transaction: { mutations: [{ key: '1' }, { key: '2' }] },
+      } as any).catch((error) => error);
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      sync.reject(new Error('Rejected'), { deletes: ['2'] });
+
+      expect(await pending).toMatchObject({ operation: 'delete', key: '2' });
+    });
+
+    it('should classify server rejections Triplit reports as JSON', async () => {
+      const sync = mockSyncOutcomes(mockClient);
+      const config = createTriplitCollectionOptions({ ...options, awaitServerConfirmation: true });
+
+      const pending = config.onUpdate({
+        transaction: { mutations: [{ key: '1', changes: { name: 'Denied' } }] },
+      } as any).catch((error) => error);
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      sync.reject(
+        {
+          name: 'WritePermissionError',
+          message: 'Write denied',
+          baseMessage: 'Write denied',
+          status: 403,
+        },
+        { sets: ['1'] }
+      );
+
+      const rejection = await pending;
+      expect(rejection).toBeInstanceOf(TriplitPermissionError);
+      expect(rejection.message).toBe(
+        '[Triplit Adapter] Failed to update row "1" in "todos": Write denied'
+      );
+      expect(rejection.cause).toBeInstanceOf(TriplitError);
+      expect(rejection.cause).toMatchObject({ name: 'WritePermissionError', status: 403 });
+    });
+  });
+
+  describe('permission checks', () => {
+    beforeEach(() => {
+      mockClient.getSchema = vi.fn().mockResolvedValue({
+        collections: {
+          todos: {
+            schema: { type: 'record', properties: {} },
+            permissions: {
+              member: {
+                insert: { filter: [true] },
+                update: { filter: [['completed', '=', false]] },
+                postUpdate: { filter: [['name', '!=', '']] },
+              },
+            },
+          },
+        },
+        roles: { member: { match: { role: 'member' } } },
+      });
+      mockClient.vars = { $token: { role: 'member' }, $global: {}, $session: {} };
+      mockClient.db = { onSchemaChange: vi.fn(() => () => {}) };
+    });
+
+    it('should evaluate the permissions of the current session', async () => {
+      const config = createTriplitCollectionOptions(options);
+      const item = { id: '1', name: 'Task', completed: false };
+
+      expect(await config.utils.canInsert(item)).toBe(true);
+      expect(await config.utils.canUpdate(item)).toBe(true);
+      expect(await config.utils.canUpdate(item, { name: '' })).toBe(false);
+      expect(await config.utils.canUpdate({ ...item, completed: true })).toBe(false);
+      expect(await config.utils.canDelete(item)).toBe(false);
+
+      mockClient.vars = { $token: {}, $global: {}, $session: {} };
+      expect(await config.utils.canInsert(item)).toBe(false);
+    });
+
+    it('should reject denied writes before writing with checkPermissions', async () => {
+      const config = createTriplitCollectionOptions({ ...options, checkPermissions: true });
+      const original = { id: '1', name: 'Task', completed: true };
+
+      const rejection = await config.onUpdate({
+        transaction: {
+          mutations: [
+            { key: '1', original, modified: { ...original, name: 'Renamed' }, changes: { name: 'Renamed' } },
+          ],
+        },
+      } as any).catch((error) => error);
+
+      expect(rejection).toBeInstanceOf(TriplitPermissionError);
+      expect(rejection).toMatchObject({ operation: 'update', key: '1', keys: ['1'] });
+      expect(mockClient.transact).not.toHaveBeenCalled();
+      expect(onError).toHaveBeenCalledWith(
+        rejection,
+        expect.objectContaining({ phase: 'update' })
+      );
+    });
+
+    it('should load the rules once and follow schema changes', async () => {
+      const config = createTriplitCollectionOptions(options);
+      const item = { id: '1', name: 'Task', completed: false };
+
+      expect(await config.utils.canDelete(item)).toBe(false);
+      expect(await config.utils.canDelete(item)).toBe(false);
+      expect(mockClient.getSchema).toHaveBeenCalledTimes(1);
+
+      const [onSchemaChange] = mockClient.db.onSchemaChange.mock.calls[0];
+      onSchemaChange({
+        successful: true,
+        newSchema: {
+          collections: { todos: { schema: { type: 'record', properties: {} } } },
+        },
+      });
+
+      expect(await config.utils.canDelete(item)).toBe(true);
+      expect(mockClient.getSchema).toHaveBeenCalledTimes(1);
+    });
+
+    it('should write permitted mutations with checkPermissions', async () => {
+      const config = createTriplitCollectionOptions({ ...options, checkPermissions: true });
+      const item = { id: '1', name: 'Task', completed: false };
+
+      await config.onInsert({
+        transaction: { mutations: [{ key: '1', modified: item }] },
+      } as any);
+
+      expect(mockClient.insert).toHaveBeenCalledWith('todos', item);
+    });
+  });
+
+  describe('snapshots echoing pending writes', () => {
+    // A client whose subscription fires as soon as a write is committed locally, while
+    // the mutation handler is still waiting for `transact` to resolve.
+    const createEchoingClient = (initial: TestItem[]) => {
+      const rows = new Map(initial.map((item) => [item.id, item]));
+      const subscribers = new Set<(results: TestItem[]) => void>();
+      const tx = {
+        insert: async (_collection: string, item: TestItem) => {
+          rows.set(item.id, item);
+        },
+        update: async (_collection: string, id: string, changes: Partial<TestItem>) => {
+          rows.set(id, { ...rows.get(id)!, ...changes });
+        },
+        delete: async (_collection: string, id: string) => {
+          rows.delete(id);
+        },
+      };
+      return {
+        fetch: vi.fn(() => new Promise(() => {})),
+        subscribe: vi.fn((_query: any, callback: (results: TestItem[]) => void) => {
+          subscribers.add(callback);
+          callback([...rows.values()]);
+          return () => subscribers.delete(callback);
+        }),
+        transact: vi.fn(async (callback: (tx: any) => Promise<void>) => {
+          await callback(tx);
+          for (const subscriber of subscribers) subscriber([...rows.values()]);
+        }),
+        onConnectionStatusChange: vi.fn(() => () => {}),
+        onConnectionOptionsChange: vi.fn(() => () => {}),
+      };
+    };
+
+    const createTodos = (initial: TestItem[]) =>
+      createCollection({
+        ...createTriplitCollectionOptions({
+          ...options,
+          client: createEchoingClient(initial) as any,
+        }),
+        startSync: true,
+      } as any) as any;
+
+    it('should keep inserts, updates and deletes once the optimistic state is dropped', async () => {
+      const todos = createTodos([
+        { id: '1', name: 'Original', completed: false },
+        { id: '2', name: 'Doomed', completed: false },
+      ]);
+
+      await todos.insert({ id: '3', name: 'New', completed: false }).isPersisted.promise;
+      await todos.update('1', (draft: TestItem) => {
+        draft.name = 'Renamed';
+      }).isPersisted.promise;
+      await todos.delete('2').isPersisted.promise;
+
+      expect(todos.state.get('3')).toEqual({ id: '3', name: 'New', completed: false });
+      expect(todos.state.get('1').name).toBe('Renamed');
+      expect(todos.state.has('2')).toBe(false);
+    });
+  });
+
   describe('without onError callback', () => {
     beforeEach(() => {
       options = {
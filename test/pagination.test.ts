@@ -0,0 +1,352 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createWindowedSubscription } from '../src/pagination';
+import { createTriplitCollectionOptions } from '../src/options';
+
+interface FeedItem {
+  id: string;
+  createdAt: number;
+}
+
+const item = (n: number): FeedItem => ({ id: `item-${n}`, createdAt: n });
+const items = (from: number, to: number) =>
+  Array.from({ length: to - from + 1 }, (_, i) => item(from + i));
+
+describe('createWindowedSubscription', () => {
+  let mockClient: any;
+  let subscriptions: Array<{ query: any; callback: (results: any) => void; unsubscribe: ReturnType<typeof vi.fn> }>;
+  let onResults: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    subscriptions = [];
+    mockClient = {
+      subscribe: vi.fn((query, callback) => {
+        const unsubscribe = vi.fn();
+        subscriptions.push({ query, callback, unsubscribe });
+        return unsubscribe;
+      }),
+    };
+    onResults = vi.fn();
+  });
+
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  const create = () =>
+    createWindowedSubscription<FeedItem>({
+      client: mockClient,
+      query: { collectionName: 'feed', order: [['createdAt', 'DESC']] } as any,
+      pageSize: 3,
+      getKey: (i) => i.id,
+      onResults,
+      onError: vi.fn(),
+    });
+
+  it('should subscribe to the first page with a stable order and one extra row', () => {
+    create();
+
+    expect(subscriptions).toHaveLength(1);
+    expect(subscriptions[0].query).toMatchObject({
+      collectionName: 'feed',
+      order: [['createdAt', 'DESC'], ['id', 'ASC']],
+      limit: 4,
+      after: undefined,
+    });
+  });
+
+  it('should report hasMore from the extra row and only emit the page itself', () => {
+    const windows = create();
+
+    subscriptions[0].callback(items(1, 4));
+
+    expect(windows.hasMore()).toBe(true);
+    expect(onResults).toHaveBeenLastCalledWith(items(1, 3));
+
+    subscriptions[0].callback(items(1, 3));
+
+    expect(windows.hasMore()).toBe(false);
+  });
+
+  it('should open the next window after the cursor of the last loaded row', async () => {
+    const windows = create();
+    subscriptions[0].callback(items(1, 4));
+
+    const loaded = windows.loadMore();
+
+    expect(subscriptions).toHaveLength(2);
+    expect(subscriptions[1].query.after).toEqual([[3, 'item-3'], false]);
+
+    subscriptions[1].callback(items(4, 5));
+    await loaded;
+
+    expect(windows.hasMore()).toBe(false);
+    expect(onResults).toHaveBeenLastCalledWith(items(1, 5));
+  });
+
+  it('should ignore loadMore while a window is loading or when there is nothing more', async () => {
+    const windows = create();
+
+    // The first window has not delivered yet
+    windows.loadMore();
+    expect(subscriptions).toHaveLength(1);
+
+    subscriptions[0].callback(items(1, 2));
+    await windows.loadMore();
+
+    expect(subscriptions).toHaveLength(1);
+  });
+
+  it('should deduplicate rows that appear in two windows', async () => {
+    const windows = create();
+    subscriptions[0].callback(items(1, 4));
+    const loaded = windows.loadMore();
+    subscriptions[1].callback(items(4, 5));
+    await loaded;
+
+    // Deleting item-3 pulls item-4 up; it is in both windows until the second one moves.
+    subscriptions[0].callback([...items(1, 2), ...items(4, 5)]);
+
+    expect(onResults).toHaveBeenLastCalledWith([...items(1, 2), ...items(4, 5)]);
+  });
+
+  it('should move later windows when a row shifts across a page boundary', async () => {
+    const windows = create();
+    subscriptions[0].callback(items(1, 4));
+    const loaded = windows.loadMore();
+    subscriptions[1].callback(items(4, 5));
+    await loaded;
+
+    // An insert at the top shifts item-3 out of the first window.
+    subscriptions[0].callback([item(0), ...items(1, 3)]);
+
+    expect(subscriptions).toHaveLength(3);
+    expect(subscriptions[1].unsubscribe).toHaveBeenCalled();
+    expect(subscriptions[2].query.after).toEqual([[2, 'item-2'], false]);
+
+    // The replaced subscription's results are ignored.
+    subscriptions[1].callback(items(5, 5));
+    subscriptions[2].callback(items(3, 5));
+
+    expect(onResults).toHaveBeenLastCalledWith([item(0), ...items(1, 5)]);
+    expect(windows.hasMore()).toBe(false);
+
+    // Once moved, the window keeps its cursor while it matches the first window's last row.
+    subscriptions[0].callback([item(0), ...items(1, 3)]);
+    expect(subscriptions).toHaveLength(3);
+  });
+
+  it('should report remote fulfillment once every loaded window is fulfilled', async () => {
+    const onRemoteFulfilled = vi.fn();
+    const windows = createWindowedSubscription<FeedItem>({
+      client: mockClient,
+      query: { collectionName: 'feed' } as any,
+      pageSize: 3,
+      getKey: (i) => i.id,
+      onRemoteFulfilled,
+      onResults,
+      onError: vi.fn(),
+    });
+    subscriptions[0].callback(items(1, 4));
+    const loaded = windows.loadMore();
+    subscriptions[1].callback(items(4, 5));
+    await loaded;
+
+    mockClient.subscribe.mock.calls[1][3].onRemoteFulfilled();
+    expect(onRemoteFulfilled).not.toHaveBeenCalled();
+
+    mockClient.subscribe.mock.calls[0][3].onRemoteFulfilled();
+    expect(onRemoteFulfilled).toHaveBeenCalledTimes(1);
+  });
+
+  it('should open the initial windows one after the other and emit them at once', () => {
+    const windows = createWindowedSubscription<FeedItem>({
+      client: mockClient,
+      query: { collectionName: 'feed', order: [['createdAt', 'DESC']] } as any,
+      pageSize: 3,
+      initialPageCount: 2,
+      getKey: (i) => i.id,
+      onResults,
+      onError: vi.fn(),
+    });
+
+    subscriptions[0].callback(items(1, 4));
+
+    expect(subscriptions).toHaveLength(2);
+    expect(subscriptions[1].query.after).toEqual([[3, 'item-3'], false]);
+    expect(onResults).not.toHaveBeenCalled();
+
+    subscriptions[1].callback(items(4, 7));
+
+    expect(subscriptions).toHaveLength(2);
+    expect(windows.getPageCount()).toBe(2);
+    expect(onResults).toHaveBeenCalledTimes(1);
+    expect(onResults).toHaveBeenLastCalledWith(items(1, 6));
+  });
+
+  it('should stop restoring windows once the query runs out of rows', () => {
+    createWindowedSubscription<FeedItem>({
+      client: mockClient,
+      query: { collectionName: 'feed' } as any,
+      pageSize: 3,
+      initialPageCount: 3,
+      getKey: (i) => i.id,
+      onResults,
+      onError: vi.fn(),
+    });
+
+    subscriptions[0].callback(items(1, 4));
+    subscriptions[1].callback(items(4, 5));
+
+    expect(subscriptions).toHaveLength(2);
+    expect(onResults).toHaveBeenLastCalledWith(items(1, 5));
+  });
+
+  it('should unsubscribe every window', async () => {
+    const windows = create();
+    subscriptions[0].callback(items(1, 4));
+    const loaded = windows.loadMore();
+    subscriptions[1].callback(items(4, 5));
+    await loaded;
+
+    windows.unsubscribe();
+
+    expect(subscriptions[0].unsubscribe).toHaveBeenCalled();
+    expect(subscriptions[1].unsubscribe).toHaveBeenCalled();
+  });
+});
+
+describe('createTriplitCollectionOptions in paginated mode', () => {
+  let mockClient: any;
+  let subscriptionCallback: (results: any) => void;
+
+  beforeEach(() => {
+    mockClient = {
+      fetch: vi.fn(),
+      subscribe: vi.fn((query, callback) => {
+        subscriptionCallback = callback;
+        return () => {};
+      }),
+      onConnectionStatusChange: vi.fn(() => () => {}),
+      onConnectionOptionsChange: vi.fn(() => () => {}),
+    };
+  });
+
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  const createParams = (state: Map<string, FeedItem>) => ({
+    begin: vi.fn(),
+    write: vi.fn(),
+    commit: vi.fn(),
+    markReady: vi.fn(),
+    collection: { syncedData: state },
+  });
+
+  it('should skip the upfront fetch and expose loadMore/hasMore', () => {
+    const config = createTriplitCollectionOptions<any, any, FeedItem>({
+      client: mockClient,
+      query: { collectionName: 'feed' } as any,
+      getKey: (i) => i.id,
+      pageSize: 2,
+    });
+    const params = createParams(new Map());
+
+    expect(config.utils.hasMore()).toBe(false);
+
+    config.sync.sync(params as any);
+    subscriptionCallback(items(1, 3));
+
+    expect(mockClient.fetch).not.toHaveBeenCalled();
+    expect(params.markReady).toHaveBeenCalledTimes(1);
+    expect(config.utils.hasMore()).toBe(true);
+  });
+
+  it('should keep rows that fell out of the loaded windows but still match the query', async () => {
+    // item-2 was pushed out of the page, item-1 was deleted
+    mockClient.fetch.mockResolvedValue([item(2)]);
+    const config = createTriplitCollectionOptions<any, any, FeedItem>({
+      client: mockClient,
+      query: { collectionName: 'feed', where: [['createdAt', '>', 0]] } as any,
+      getKey: (i) => i.id,
+      pageSize: 2,
+    });
+    const state = new Map([
+      ['item-1', item(1)],
+      ['item-2', item(2)],
+    ]);
+    const params = createParams(state);
+
+    config.sync.sync(params as any);
+    subscriptionCallback([item(3), item(4)]);
+
+    // Deletes are deferred until the local membership check completes
+    expect(params.write).not.toHaveBeenCalledWith(expect.objectContaining({ type: 'delete' }));
+
+    await new Promise(resolve => setTimeout(resolve, 0));
+
+    expect(mockClient.fetch).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: [['createdAt', '>', 0], ['id', 'in', ['item-1', 'item-2']]],
+        limit: undefined,
+      }),
+      { policy: 'local-only' }
+    );
+    expect(params.write).toHaveBeenCalledWith({ type: 'delete', value: item(1) });
+    expect(params.write).not.toHaveBeenCalledWith({ type: 'delete', value: item(2) });
+  });
+
+  describe('restarting', () => {
+    let subscriptions: Array<{ query: any; callback: (results: any) => void }>;
+
+    beforeEach(() => {
+      subscriptions = [];
+      mockClient.subscribe = vi.fn((query, callback) => {
+        subscriptions.push({ query, callback });
+        return () => {};
+      });
+    });
+
+    const startWithTwoPages = async () => {
+      const config = createTriplitCollectionOptions<any, any, FeedItem>({
+        client: mockClient,
+        query: { collectionName: 'feed' } as any,
+        getKey: (i) => i.id,
+        pageSize: 2,
+      });
+      config.sync.sync(createParams(new Map()) as any);
+      subscriptions[0].callback(items(1, 3));
+      const loaded = config.utils.loadMore();
+      subscriptions[1].callback(items(3, 5));
+      await loaded;
+      return config;
+    };
+
+    it('should reopen every loaded page when resumed', async () => {
+      const config = await startWithTwoPages();
+
+      config.utils.pause();
+      const resumed = config.utils.resume();
+
+      expect(subscriptions).toHaveLength(3);
+      expect(subscriptions[2].query.after).toBeUndefined();
+      subscriptions[2].callback(items(1, 3));
+      expect(subscriptions).toHaveLength(4);
+      expect(subscriptions[3].query.after).toEqual([['item-2'], false]);
+      subscriptions[3].callback(items(3, 5));
+      await resumed;
+
+      expect(config.utils.hasMore()).toBe(true);
+      expect(mockClient.fetch).not.toHaveBeenCalled();
+    });
+
+    it('should start a new query from its first page', async () => {
+      const config = await startWithTwoPages();
+
+      void config.utils.setQuery({ collectionName: 'feed', where: [['createdAt', '>', 2]] } as any);
+      subscriptions[2].callback(items(3, 5));
+
+      expect(subscriptions).toHaveLength(3);
+    });
+  });
+});
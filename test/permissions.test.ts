@@ -0,0 +1,125 @@
+import { describe, it, expect } from 'vitest';
+import { evaluateWritePermission } from '../src/permissions';
+import type { TriplitPermissionCheck } from '../src/permissions';
+
+const collections = {
+  todos: {
+    schema: { type: 'record', properties: {} },
+    relationships: { owner: {} },
+    permissions: {
+      user: {
+        insert: { filter: [['ownerId', '=', '$role.userId']] },
+        update: { filter: [['ownerId', '=', '$role.userId']] },
+        delete: { filter: [['ownerId', '=', '$role.userId'], ['locked', '=', false]] },
+      },
+      admin: {
+        insert: { filter: [true] },
+        update: { filter: [true] },
+        postUpdate: { filter: [['title', '!=', '']] },
+        delete: { filter: [] },
+      },
+    },
+  },
+  notes: {
+    schema: { type: 'record', properties: {} },
+  },
+} as any;
+
+const roles = {
+  user: { match: { type: 'user', sub: '$userId' } },
+  admin: { match: { type: 'admin' } },
+};
+
+const check = (overrides: Partial<TriplitPermissionCheck>) =>
+  evaluateWritePermission({
+    collections,
+    roles,
+    variables: { $token: { type: 'user', sub: 'alice' } },
+    collectionName: 'todos',
+    operation: 'insert',
+    entity: { id: '1', ownerId: 'alice', title: 'Buy milk', locked: false },
+    ...overrides,
+  });
+
+describe('evaluateWritePermission', () => {
+  it('should allow writes to collections without permissions', () => {
+    expect(check({ collectionName: 'notes' })).toBe(true);
+    expect(check({ collections: undefined })).toBe(true);
+  });
+
+  it('should evaluate role filters with role variables', () => {
+    expect(check({})).toBe(true);
+    expect(check({ entity: { id: '1', ownerId: 'bob' } })).toBe(false);
+  });
+
+  it('should deny sessions that match no role granting the operation', () => {
+    expect(check({ variables: { $token: { type: 'guest' } } })).toBe(false);
+    expect(check({ variables: { $token: {} } })).toBe(false);
+  });
+
+  it('should treat an empty filter as access denied', () => {
+    expect(
+      check({ operation: 'delete', variables: { $token: { type: 'admin' } } })
+    ).toBe(false);
+  });
+
+  it('should only deny postUpdate when a matching role defines it', () => {
+    const entity = { id: '1', ownerId: 'alice', title: '' };
+
+    expect(check({ operation: 'postUpdate', entity })).toBe(true);
+    expect(
+      check({ operation: 'postUpdate', entity, variables: { $token: { type: 'admin' } } })
+    ).toBe(false);
+  });
+
+  it('should combine the filters of a role and the roles of a session', () => {
+    const entity = { id: '1', ownerId: 'alice', locked: true };
+
+    expect(check({ operation: 'delete', entity })).toBe(false);
+    expect(check({ operation: 'delete', entity: { ...entity, locked: false } })).toBe(true);
+  });
+
+  it('should leave rules it cannot decide locally to Triplit', () => {
+    const withFilter = (filter: unknown[]) => ({
+      todos: { ...collections.todos, permissions: { user: { insert: { filter } } } },
+    });
+
+    expect(check({ collections: withFilter([['owner.name', '=', 'Alice']]) })).toBeUndefined();
+    expect(check({ collections: withFilter([{ exists: {} }]) })).toBeUndefined();
+    expect(check({ collections: withFilter([['ownerId', '=', '$query.id']]) })).toBeUndefined();
+    expect(
+      check({ collections: withFilter([['ownerId', '=', 'bob'], { exists: {} }]) })
+    ).toBe(false);
+  });
+
+  it('should support groups, set membership and $prev', () => {
+    const withFilter = (filter: unknown[]) => ({
+      todos: { ...collections.todos, permissions: { user: { update: { filter } } } },
+    });
+    const entity = { id: '1', ownerId: 'bob', editors: new Set(['alice']) };
+
+    expect(
+      check({
+        operation: 'update',
+        entity,
+        collections: withFilter([
+          {
+            mod: 'or',
+            filters: [
+              ['ownerId', '=', '$role.userId'],
+              ['editors', 'has', '$role.userId'],
+            ],
+          },
+        ]),
+      })
+    ).toBe(true);
+    expect(
+      check({
+        operation: 'update',
+        entity,
+        prev: { ownerId: 'carol' },
+        collections: withFilter([['ownerId', '=', '$prev.ownerId']]),
+      })
+    ).toBe(false);
+  });
+});
@@ -0,0 +1,106 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  createTriplitCollection,
+  disposeAll,
+  getTriplitCollections,
+  pauseAll,
+  resumeAll,
+} from '../src/index';
+import { createTriplitCollectionFamily } from '../src/family';
+
+const createMockClient = () => {
+  const client: any = {
+    fetch: vi.fn(() => new Promise(() => {})),
+    subscribe: vi.fn(() => vi.fn()),
+    transact: vi.fn((callback) => callback(client)),
+    onConnectionStatusChange: vi.fn(() => () => {}),
+    onConnectionOptionsChange: vi.fn(() => () => {}),
+  };
+  return client;
+};
+
+const createTodos = (client: any, id: string) =>
+  createTriplitCollection({
+    client,
+    query: { collectionName: 'todos' } as any,
+    id,
+    startSync: true,
+  });
+
+describe('collection registry', () => {
+  afterEach(async () => {
+    await disposeAll();
+  });
+
+  it('should list the collections of each client by ID', () => {
+    const client = createMockClient();
+    const otherClient = createMockClient();
+    const todos = createTodos(client, 'todos');
+    const archived = createTodos(client, 'archived');
+    const others = createTodos(otherClient, 'todos');
+
+    expect(getTriplitCollections(client)).toEqual([todos, archived]);
+    expect(getTriplitCollections(otherClient)).toEqual([others]);
+    expect(getTriplitCollections()).toEqual([todos, archived, others]);
+  });
+
+  it('should replace and tear down a collection created again with the same ID', () => {
+    const client = createMockClient();
+    const todos = createTodos(client, 'todos');
+    const unsubscribe = client.subscribe.mock.results[0].value;
+    const reloaded = createTodos(client, 'todos');
+
+    expect(getTriplitCollections(client)).toEqual([reloaded]);
+    expect(unsubscribe).toHaveBeenCalled();
+    expect(todos.status).toBe('cleaned-up');
+    expect(reloaded.status).not.toBe('cleaned-up');
+  });
+
+  it('should tear down and unregister the collections of a client', async () => {
+    const client = createMockClient();
+    const otherClient = createMockClient();
+    const todos = createTodos(client, 'todos');
+    createTodos(otherClient, 'todos');
+    const unsubscribe = client.subscribe.mock.results[0].value;
+
+    await disposeAll(client);
+
+    expect(unsubscribe).toHaveBeenCalled();
+    expect(todos.status).toBe('cleaned-up');
+    expect(getTriplitCollections(client)).toEqual([]);
+    expect(getTriplitCollections(otherClient)).toHaveLength(1);
+  });
+
+  it('should pause and resume every collection', async () => {
+    const client = createMockClient();
+    const todos = createTodos(client, 'todos');
+    const archived = createTodos(client, 'archived');
+
+    pauseAll(client);
+
+    expect(todos.utils.getSyncStatus().status).toBe('paused');
+    expect(archived.utils.getSyncStatus().status).toBe('paused');
+    expect(client.subscribe.mock.results[0].value).toHaveBeenCalled();
+
+    client.fetch.mockResolvedValue([]);
+    await resumeAll(client);
+
+    expect(client.fetch).toHaveBeenCalledTimes(4);
+    expect(todos.utils.getSyncStatus().status).not.toBe('paused');
+  });
+
+  it('should unregister collections a family tears down', async () => {
+    const client = createMockClient();
+    const family = createTriplitCollectionFamily(
+      (channelId: string) => ({ collectionName: 'messages', where: [['channelId', '=', channelId]] }) as any,
+      { client, id: 'messages' }
+    );
+    family.get('general');
+
+    expect(getTriplitCollections(client)).toHaveLength(1);
+
+    await family.dispose();
+
+    expect(getTriplitCollections(client)).toEqual([]);
+  });
+});
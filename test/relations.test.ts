@@ -0,0 +1,197 @@
+import { describe, it, expect, vi } from 'vitest';
+import { Schema as S } from '@triplit/client';
+import { createTriplitCollectionOptions } from '../src/options';
+import { triplitSchemaToStandardSchema } from '../src/schema';
+
+interface User {
+  id: string;
+  name: string;
+}
+
+interface Todo {
+  id: string;
+  text: string;
+  assignee?: User | null;
+  watchers?: User[];
+}
+
+const alice: User = { id: 'u1', name: 'Alice' };
+const bob: User = { id: 'u2', name: 'Bob' };
+
+const createMockClient = () => {
+  const client: any = {
+    fetch: vi.fn(() => new Promise(() => {})),
+    subscribe: vi.fn(),
+    insert: vi.fn(),
+    update: vi.fn(),
+    delete: vi.fn(),
+    transact: vi.fn((callback) => callback(client)),
+    onConnectionStatusChange: vi.fn(() => () => {}),
+    onConnectionOptionsChange: vi.fn(() => () => {}),
+  };
+  return client;
+};
+
+/** Starts a sync against an in-memory state map that applies every write. */
+const startSync = (config: any) => {
+  const state = new Map<string | number, any>();
+  const collection = { syncedData: state };
+  let subscriptionCallback!: (results: any) => void;
+  config.__client.subscribe.mockImplementation((_query: any, callback: any) => {
+    subscriptionCallback = callback;
+    return () => {};
+  });
+  const params = {
+    begin: vi.fn(),
+    write: vi.fn(({ type, value }) => {
+      const key = value.id;
+      if (type === 'delete') state.delete(key);
+      else state.set(key, value);
+    }),
+    commit: vi.fn(),
+    markReady: vi.fn(),
+    collection,
+  };
+  const cleanup = config.sync.sync(params);
+  return { state, collection, params, cleanup, deliver: (results: any) => subscriptionCallback(results) };
+};
+
+const todosQuery = {
+  collectionName: 'todos',
+  include: { assignee: null, watchers: null },
+} as any;
+
+const createTodos = (overrides: Record<string, unknown> = {}) => {
+  const client = createMockClient();
+  const config = createTriplitCollectionOptions<any, any, Todo>({
+    client,
+    query: todosQuery,
+    getKey: (todo) => todo.id,
+    ...overrides,
+  });
+  return Object.assign(config, { __client: client });
+};
+
+const createUsers = () => {
+  const client = createMockClient();
+  const config = createTriplitCollectionOptions<any, any, User>({
+    client,
+    query: { collectionName: 'users', where: [['name', '=', 'Nobody']] } as any,
+    getKey: (user) => user.id,
+  });
+  return Object.assign(config, { __client: client });
+};
+
+describe('included relations', () => {
+  it('should expose included relations as read-only values', () => {
+    const todos = startSync(createTodos());
+    const remote = { id: 't1', text: 'Write docs', assignee: { ...alice }, watchers: [{ ...bob }] };
+
+    todos.deliver([remote]);
+
+    const item = todos.state.get('t1');
+    expect(item.assignee).toEqual(alice);
+    expect(Object.isFrozen(item.assignee)).toBe(true);
+    expect(Object.isFrozen(item.watchers[0])).toBe(true);
+    // Triplit's own result objects are left untouched.
+    expect(Object.isFrozen(remote.assignee)).toBe(false);
+  });
+
+  it('should strip included relations before inserts and updates', async () => {
+    const config = createTodos();
+    const client = config.__client;
+
+    await config.onInsert!({
+      transaction: {
+        mutations: [{ modified: { id: 't1', text: 'New', assignee: alice, watchers: [bob] } }],
+      },
+    } as any);
+    await config.onUpdate!({
+      transaction: {
+        mutations: [
+          {
+            key: 't1',
+            original: { id: 't1', text: 'New', assignee: alice },
+            changes: { text: 'Renamed', assignee: bob },
+          },
+        ],
+      },
+    } as any);
+
+    expect(client.insert).toHaveBeenCalledWith('todos', { id: 't1', text: 'New' });
+    expect(client.update).toHaveBeenCalledWith('todos', 't1', { text: 'Renamed' });
+  });
+
+  describe('relationCollections', () => {
+    it('should materialize related entities into the sibling collection', () => {
+      const usersConfig = createUsers();
+      const users = startSync(usersConfig);
+      const todos = startSync(
+        createTodos({
+          relationCollections: { assignee: users.collection, watchers: users.collection },
+        })
+      );
+
+      todos.deliver([{ id: 't1', text: 'A', assignee: alice, watchers: [bob, alice] }]);
+
+      expect(users.state.get('u1')).toEqual(alice);
+      expect(users.state.get('u2')).toEqual(bob);
+    });
+
+    it('should keep materialized rows when the sibling query does not match them', () => {
+      const users = startSync(createUsers());
+      const todos = startSync(createTodos({ relationCollections: { assignee: users.collection } }));
+
+      todos.deliver([{ id: 't1', text: 'A', assignee: alice }]);
+      users.deliver([]);
+
+      expect(users.state.has('u1')).toBe(true);
+    });
+
+    it('should release rows the parent no longer includes, and all rows on cleanup', () => {
+      const users = startSync(createUsers());
+      const todos = startSync(createTodos({ relationCollections: { assignee: users.collection } }));
+
+      todos.deliver([
+        { id: 't1', text: 'A', assignee: alice },
+        { id: 't2', text: 'B', assignee: bob },
+      ]);
+      todos.deliver([{ id: 't1', text: 'A', assignee: alice }]);
+
+      expect(users.state.has('u2')).toBe(false);
+      expect(users.state.has('u1')).toBe(true);
+
+      todos.cleanup();
+
+      expect(users.state.has('u1')).toBe(false);
+    });
+
+    it('should skip siblings that are not syncing', () => {
+      const idleUsers = { state: new Map() };
+      const todos = startSync(createTodos({ relationCollections: { assignee: idleUsers } }));
+
+      expect(() => todos.deliver([{ id: 't1', text: 'A', assignee: alice }])).not.toThrow();
+      expect(todos.state.has('t1')).toBe(true);
+    });
+  });
+
+  it('should let the generated schema pass relations through', () => {
+    const schema = S.Collections({
+      users: { schema: S.Schema({ id: S.Id(), name: S.String() }) },
+      todos: {
+        schema: S.Schema({ id: S.Id(), text: S.String(), assigneeId: S.String() }),
+        relationships: { assignee: S.RelationById('users', '$assigneeId') },
+      },
+    });
+
+    const result = triplitSchemaToStandardSchema(schema, 'todos')['~standard'].validate({
+      id: 't1',
+      text: 'A',
+      assigneeId: 'u1',
+      assignee: alice,
+    }) as any;
+
+    expect(result.issues).toBeUndefined();
+    expect(result.value.assignee).toBe(alice);
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { TriplitError } from '@triplit/client';
+import { getRetryDelay, isRetryableTriplitError } from '../src/retry';
+
+const permissionError = () => {
+  const error = new TriplitError('Permission denied');
+  error.status = 401;
+  return error;
+};
+
+describe('isRetryableTriplitError', () => {
+  it('should retry server-side Triplit errors', () => {
+    expect(isRetryableTriplitError(new TriplitError('Internal'))).toBe(true);
+  });
+
+  it('should not retry errors that do not come from Triplit', () => {
+    expect(isRetryableTriplitError(new Error('Invalid date'))).toBe(false);
+  });
+
+  it('should not retry Triplit errors with a 4xx status', () => {
+    expect(isRetryableTriplitError(permissionError())).toBe(false);
+  });
+
+  it('should retry expired tokens', () => {
+    const error = new TriplitError('Token expired');
+    error.name = 'TokenExpiredError';
+    error.status = 401;
+
+    expect(isRetryableTriplitError(error)).toBe(true);
+  });
+});
+
+describe('getRetryDelay', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should grow the delay exponentially up to maxDelay', () => {
+    const policy = { initialDelay: 100, factor: 3, maxDelay: 1000, jitter: false };
+    const error = new TriplitError('Offline');
+
+    expect(getRetryDelay(policy, error, 1)).toBe(100);
+    expect(getRetryDelay(policy, error, 2)).toBe(300);
+    expect(getRetryDelay(policy, error, 3)).toBe(900);
+    expect(getRetryDelay(policy, error, 4)).toBe(1000);
+  });
+
+  it('should randomize the delay between half and all of it with jitter', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    expect(getRetryDelay({ initialDelay: 1000 }, new TriplitError('Offline'), 1)).toBe(500);
+
+    vi.spyOn(Math, 'random').mockReturnValue(0.999);
+    expect(getRetryDelay({ initialDelay: 1000 }, new TriplitError('Offline'), 1)).toBeCloseTo(999.5);
+  });
+
+  it('should give up after maxAttempts or when shouldRetry declines', () => {
+    const error = new TriplitError('Offline');
+
+    expect(getRetryDelay({ maxAttempts: 2 }, error, 3)).toBeUndefined();
+    expect(getRetryDelay({}, permissionError(), 1)).toBeUndefined();
+    expect(
+      getRetryDelay({ shouldRetry: (_, attempt) => attempt < 2, jitter: false }, error, 2)
+    ).toBeUndefined();
+  });
+});
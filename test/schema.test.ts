@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest';
+import { Schema as S } from '@triplit/client';
+import { triplitSchemaToStandardSchema } from '../src/schema';
+
+const schema = S.Collections({
+  todos: {
+    schema: S.Schema({
+      id: S.Id(),
+      text: S.String(),
+      priority: S.String({ enum: ['low', 'high'] as const, default: 'low' }),
+      completed: S.Boolean({ default: false }),
+      createdAt: S.Date({ default: S.Default.now() }),
+      tags: S.Set(S.String(), { default: S.Default.Set.empty() }),
+      note: S.Optional(S.String()),
+      assignee: S.String({ nullable: true }),
+      meta: S.Record({ estimate: S.Number() }),
+    }),
+  },
+});
+
+const validate = (value: unknown) =>
+  triplitSchemaToStandardSchema(schema, 'todos')['~standard'].validate(value) as any;
+
+describe('triplitSchemaToStandardSchema', () => {
+  it('should fill in defaults and decode dates and sets', () => {
+    const result = validate({
+      text: 'Buy milk',
+      assignee: null,
+      meta: { estimate: 2 },
+      tags: ['errand'],
+    });
+
+    expect(result.issues).toBeUndefined();
+    expect(result.value).toEqual({
+      id: expect.any(String),
+      text: 'Buy milk',
+      priority: 'low',
+      completed: false,
+      createdAt: expect.any(Date),
+      tags: new Set(['errand']),
+      assignee: null,
+      meta: { estimate: 2 },
+    });
+    expect(result.value.id).toHaveLength(21);
+  });
+
+  it('should treat nullable attributes as optional', () => {
+    const result = validate({ text: 'a', meta: { estimate: 1 } });
+
+    expect(result.issues).toBeUndefined();
+    expect(result.value).not.toHaveProperty('assignee');
+  });
+
+  it('should report missing, mistyped, out-of-enum and unknown attributes with paths', () => {
+    const result = validate({
+      id: 'todo-1',
+      priority: 'urgent',
+      completed: 'yes',
+      meta: { estimate: 'two' },
+      colour: 'red',
+    });
+
+    expect(result.issues).toEqual(
+      expect.arrayContaining([
+        { message: 'Unrecognized attribute', path: ['colour'] },
+        { message: 'Required', path: ['text'] },
+        { message: 'Expected one of: low, high', path: ['priority'] },
+        { message: 'Expected a boolean', path: ['completed'] },
+        { message: 'Expected a number', path: ['meta', 'estimate'] },
+      ])
+    );
+    expect(result.issues).toHaveLength(5);
+  });
+
+  it('should accept timestamps and date strings, and reject invalid dates', () => {
+    const base = { text: 'a', assignee: null, meta: { estimate: 1 } };
+
+    expect(validate({ ...base, createdAt: 0 }).value.createdAt).toEqual(new Date(0));
+    expect(validate({ ...base, createdAt: '2024-01-01T00:00:00.000Z' }).value.createdAt).toEqual(
+      new Date('2024-01-01T00:00:00.000Z')
+    );
+    expect(validate({ ...base, createdAt: 'not a date' }).issues).toEqual([
+      { message: 'Expected a date', path: ['createdAt'] },
+    ]);
+  });
+
+  it('should accept the { collections } shape returned by client.getSchema()', () => {
+    const standardSchema = triplitSchemaToStandardSchema({ collections: schema }, 'todos');
+
+    expect(standardSchema['~standard'].vendor).toBe('triplit');
+    expect(
+      (standardSchema['~standard'].validate({ text: 1 }) as any).issues
+    ).toContainEqual({ message: 'Expected a string', path: ['text'] });
+  });
+
+  it('should throw for an unknown collection', () => {
+    expect(() => triplitSchemaToStandardSchema(schema, 'missing' as any)).toThrow(
+      'Collection "missing" does not exist in the Triplit schema.'
+    );
+  });
+});
@@ -0,0 +1,203 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createTriplitTransaction } from '../src/transaction';
+import { registerTriplitCollection } from '../src/registry';
+import { TriplitPermissionError } from '../src/errors';
+
+// Mock TanStack DB so the transaction config (and its mutationFn) can be inspected directly
+vi.mock('@tanstack/db', () => ({
+  createTransaction: vi.fn((config) => config),
+}));
+
+const createMockClient = () => {
+  const tx = {
+    insert: vi.fn(),
+    update: vi.fn(),
+    delete: vi.fn(),
+  };
+  return {
+    tx,
+    transact: vi.fn(async (callback: (tx: any) => Promise<unknown>) => callback(tx)),
+  };
+};
+
+describe('createTriplitTransaction', () => {
+  let client: ReturnType<typeof createMockClient>;
+  let todos: object;
+  let projects: object;
+  let onError: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    client = createMockClient();
+    todos = { id: 'todos' };
+    projects = { id: 'projects' };
+    onError = vi.fn();
+    registerTriplitCollection(todos, { client: client as any, collectionName: 'todos', onError });
+    registerTriplitCollection(projects, { client: client as any, collectionName: 'projects', onError });
+  });
+
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should commit mutations across collections sharing a client in one Triplit transaction', async () => {
+    const config: any = createTriplitTransaction();
+
+    await config.mutationFn({
+      transaction: {
+        mutations: [
+          { type: 'update', key: 't1', changes: { projectId: 'p2' }, collection: todos },
+          { type: 'update', key: 'p1', changes: { todoCount: 0 }, collection: projects },
+          { type: 'update', key: 'p2', changes: { todoCount: 1 }, collection: projects },
+        ],
+      },
+    });
+
+    expect(client.transact).toHaveBeenCalledTimes(1);
+    expect(client.tx.update).toHaveBeenCalledWith('todos', 't1', { projectId: 'p2' });
+    expect(client.tx.update).toHaveBeenCalledWith('projects', 'p1', { todoCount: 0 });
+    expect(client.tx.update).toHaveBeenCalledWith('projects', 'p2', { todoCount: 1 });
+  });
+
+  it('should dispatch each mutation by its own type', async () => {
+    const config: any = createTriplitTransaction();
+
+    await config.mutationFn({
+      transaction: {
+        mutations: [
+          { type: 'insert', key: 't1', modified: { id: 't1' }, collection: todos },
+          { type: 'delete', key: 'p1', collection: projects },
+        ],
+      },
+    });
+
+    expect(client.tx.insert).toHaveBeenCalledWith('todos', { id: 't1' });
+    expect(client.tx.delete).toHaveBeenCalledWith('projects', 'p1');
+  });
+
+  it('should commit collections backed by different clients separately', async () => {
+    const otherClient = createMockClient();
+    const users = { id: 'users' };
+    registerTriplitCollection(users, { client: otherClient as any, collectionName: 'users' });
+
+    const config: any = createTriplitTransaction();
+
+    await config.mutationFn({
+      transaction: {
+        mutations: [
+          { type: 'delete', key: 't1', collection: todos },
+          { type: 'delete', key: 'u1', collection: users },
+        ],
+      },
+    });
+
+    expect(client.transact).toHaveBeenCalledTimes(1);
+    expect(otherClient.transact).toHaveBeenCalledTimes(1);
+    expect(otherClient.tx.delete).toHaveBeenCalledWith('users', 'u1');
+  });
+
+  it('should notify onError once and rethrow when the Triplit transaction fails', async () => {
+    const error = new Error('Write rejected');
+    client.tx.update.mockRejectedValueOnce(error);
+
+    const config: any = createTriplitTransaction();
+
+    await expect(
+      config.mutationFn({
+        transaction: {
+          mutations: [
+            { type: 'update', key: 't1', changes: {}, collection: todos },
+            { type: 'update', key: 'p1', changes: {}, collection: projects },
+          ],
+        },
+      })
+    ).rejects.toMatchObject({
+      name: 'TriplitMutationError',
+      collectionName: 'todos',
+      operation: 'update',
+      key: 't1',
+      keys: ['t1', 'p1'],
+      cause: error,
+    });
+
+    expect(onError).toHaveBeenCalledTimes(1);
+    expect(onError).toHaveBeenCalledWith(error, {
+      phase: 'update',
+      collectionId: 'todos',
+      collectionName: 'todos',
+      keys: ['t1', 'p1'],
+      mutations: expect.any(Array),
+      attempt: 1,
+    });
+  });
+
+  it('should check the permissions of collections with checkPermissions', async () => {
+    const checked = { id: 'checked' };
+    Object.assign(client, {
+      getSchema: vi.fn().mockResolvedValue({
+        collections: {
+          todos: {
+            schema: { type: 'record', properties: {} },
+            permissions: { member: { delete: { filter: [['ownerId', '=', '$role.userId']] } } },
+          },
+        },
+        roles: { member: { match: { sub: '$userId' } } },
+      }),
+      vars: { $token: { sub: 'alice' } },
+      db: { onSchemaChange: vi.fn(() => () => {}) },
+    });
+    registerTriplitCollection(checked, {
+      client: client as any,
+      collectionName: 'todos',
+      checkPermissions: true,
+    });
+    const config: any = createTriplitTransaction();
+
+    const rejection = await config
+      .mutationFn({
+        transaction: {
+          mutations: [
+            { type: 'delete', key: 't1', original: { id: 't1', ownerId: 'alice' }, collection: checked },
+            { type: 'delete', key: 't2', original: { id: 't2', ownerId: 'bob' }, collection: checked },
+          ],
+        },
+      })
+      .catch((error: unknown) => error);
+
+    expect(rejection).toBeInstanceOf(TriplitPermissionError);
+    expect(rejection).toMatchObject({ operation: 'delete', key: 't2', keys: ['t1', 't2'] });
+    expect(client.transact).not.toHaveBeenCalled();
+  });
+
+  it('should reject mutations of non-Triplit collections without a mutationFn', async () => {
+    const config: any = createTriplitTransaction();
+
+    await expect(
+      config.mutationFn({
+        transaction: {
+          mutations: [{ type: 'delete', key: 'x', collection: { id: 'rest' } }],
+        },
+      })
+    ).rejects.toThrow('not created by createTriplitCollection');
+  });
+
+  it('should call the user mutationFn after the Triplit transaction commits', async () => {
+    const mutationFn = vi.fn(async () => 'done');
+    const config: any = createTriplitTransaction({ mutationFn, autoCommit: false });
+    const params = {
+      transaction: {
+        mutations: [
+          { type: 'delete', key: 't1', collection: todos },
+          { type: 'delete', key: 'x', collection: { id: 'rest' } },
+        ],
+      },
+    };
+
+    await expect(config.mutationFn(params)).resolves.toBe('done');
+
+    expect(config.autoCommit).toBe(false);
+    expect(mutationFn).toHaveBeenCalledWith(params);
+    expect(client.transact.mock.invocationCallOrder[0]).toBeLessThan(
+      mutationFn.mock.invocationCallOrder[0]
+    );
+  });
+});
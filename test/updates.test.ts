@@ -0,0 +1,147 @@
+import { describe, it, expect } from 'vitest';
+import { buildTriplitUpdate } from '../src/updates';
+import { setCodec } from '../src/codecs';
+
+const runUpdater = (update: any, entity: Record<string, any>) => {
+  expect(update).toBeTypeOf('function');
+  update(entity);
+  return entity;
+};
+
+describe('buildTriplitUpdate', () => {
+  it('should pass plain changes through as an object', () => {
+    const update = buildTriplitUpdate(
+      { key: '1', original: { id: '1', name: 'Old' }, changes: { name: 'New' } } as any,
+      undefined
+    );
+
+    expect(update).toEqual({ name: 'New' });
+  });
+
+  it('should apply set changes as add/delete operations on the current entity', () => {
+    const update = buildTriplitUpdate(
+      {
+        key: '1',
+        original: { id: '1', name: 'Old', tags: new Set(['a', 'b']) },
+        changes: { name: 'New', tags: new Set(['b', 'c']) },
+      } as any,
+      undefined
+    );
+
+    // Another client added 'd' in the meantime; it must survive the update.
+    const entity = runUpdater(update, { id: '1', name: 'Old', tags: new Set(['a', 'b', 'd']) });
+
+    expect(entity.name).toBe('New');
+    expect(entity.tags).toEqual(new Set(['b', 'c', 'd']));
+  });
+
+  it('should diff against the encoded previous value when a codec maps sets to arrays', () => {
+    const update = buildTriplitUpdate(
+      {
+        key: '1',
+        original: { id: '1', tags: ['a'] },
+        changes: { tags: ['a', 'b'] },
+      } as any,
+      { tags: setCodec({ as: 'array' }) }
+    );
+
+    const entity = runUpdater(update, { id: '1', tags: new Set(['a', 'z']) });
+
+    expect(entity.tags).toEqual(new Set(['a', 'b', 'z']));
+  });
+
+  it('should assign the whole set when the current entity has none', () => {
+    const update = buildTriplitUpdate(
+      {
+        key: '1',
+        original: { id: '1', tags: new Set(['a']) },
+        changes: { tags: new Set(['a', 'b']) },
+      } as any,
+      undefined
+    );
+
+    const entity = runUpdater(update, { id: '1', tags: null });
+
+    expect(entity.tags).toEqual(new Set(['a', 'b']));
+  });
+
+  it('should assign a set that replaces a non-set value', () => {
+    const update = buildTriplitUpdate(
+      { key: '1', original: { id: '1', tags: null }, changes: { tags: new Set(['a']) } } as any,
+      undefined
+    );
+
+    expect(update).toEqual({ tags: new Set(['a']) });
+  });
+
+  describe('deep-patch strategy', () => {
+    const mutation = {
+      key: '1',
+      original: {
+        id: '1',
+        profile: { name: 'Ada', address: { city: 'London', zip: 'N1' }, nickname: 'A' },
+      },
+      changes: {
+        profile: { name: 'Ada', address: { city: 'Paris', zip: 'N1' } },
+      },
+    } as any;
+
+    it('should only write the nested leaves that changed', () => {
+      const update = buildTriplitUpdate(mutation, undefined, 'deep-patch');
+
+      // Another client changed the zip and the name concurrently.
+      const entity = runUpdater(update, {
+        id: '1',
+        profile: { name: 'Ada L.', address: { city: 'London', zip: 'E2' }, nickname: 'A' },
+      });
+
+      expect(entity.profile).toEqual({ name: 'Ada L.', address: { city: 'Paris', zip: 'E2' } });
+    });
+
+    it('should replace the whole record with the shallow strategy', () => {
+      expect(buildTriplitUpdate(mutation, undefined, 'shallow')).toEqual(mutation.changes);
+    });
+
+    it('should create missing parent records and apply nested set operations', () => {
+      const update = buildTriplitUpdate(
+        {
+          key: '1',
+          original: { id: '1', meta: { labels: new Set(['a']) }, extra: { note: 'x' } },
+          changes: { meta: { labels: new Set(['a', 'b']) }, extra: { note: 'y' } },
+        } as any,
+        undefined,
+        'deep-patch'
+      );
+
+      const entity = runUpdater(update, { id: '1', meta: { labels: new Set(['a', 'c']) }, extra: null });
+
+      expect(entity.meta.labels).toEqual(new Set(['a', 'b', 'c']));
+      expect(entity.extra).toEqual({ note: 'y' });
+    });
+
+    it('should fall back to plain assignments without a previous value', () => {
+      const update = buildTriplitUpdate(
+        { key: '1', changes: { profile: { name: 'Ada' } } } as any,
+        undefined,
+        'deep-patch'
+      );
+
+      expect(update).toEqual({ profile: { name: 'Ada' } });
+    });
+  });
+
+  it('should write every attribute except the id with the full strategy', () => {
+    const update = buildTriplitUpdate(
+      {
+        key: '1',
+        original: { id: '1', name: 'Old', tags: new Set(['a']) },
+        modified: { id: '1', name: 'New', tags: new Set(['a', 'b']) },
+        changes: { name: 'New' },
+      } as any,
+      undefined,
+      'full'
+    );
+
+    expect(update).toEqual({ name: 'New', tags: new Set(['a', 'b']) });
+  });
+});